@@ -63,7 +63,8 @@ BEGIN
 END
 GO
 
--- Table for audit logging (optional)
+-- Job history: one row per import job, written when the job is queued and
+-- updated as it runs and finishes; backs GET /api/jobs
 IF NOT EXISTS (SELECT * FROM sys.objects WHERE object_id = OBJECT_ID(N'[dbo].[ImportAuditLog]') AND type in (N'U'))
 BEGIN
     CREATE TABLE [dbo].[ImportAuditLog] (
@@ -80,13 +81,69 @@ BEGIN
         [Status] NVARCHAR(50),
         [ErrorMessage] NVARCHAR(MAX),
         [CorrelationId] NVARCHAR(50),
-        [CreatedAt] DATETIME2 DEFAULT GETDATE()
+        [CreatedAt] DATETIME2 DEFAULT GETDATE(),
+        [UserId] NVARCHAR(255),
+        [ParentJobId] NVARCHAR(50),
+        [Mode] NVARCHAR(20),
+        [ProcessedCount] INT,
+        [InsertedCount] INT,
+        [UpdatedCount] INT,
+        [UnchangedCount] INT,
+        [UpdatedAt] DATETIME2
     );
 
     -- Create indexes
-    CREATE NONCLUSTERED INDEX IX_ImportAuditLog_JobId ON [dbo].[ImportAuditLog]([JobId]);
+    CREATE UNIQUE NONCLUSTERED INDEX IX_ImportAuditLog_JobId ON [dbo].[ImportAuditLog]([JobId]);
     CREATE NONCLUSTERED INDEX IX_ImportAuditLog_CreatedAt ON [dbo].[ImportAuditLog]([CreatedAt]);
     CREATE NONCLUSTERED INDEX IX_ImportAuditLog_Status ON [dbo].[ImportAuditLog]([Status]);
+    CREATE NONCLUSTERED INDEX IX_ImportAuditLog_TableName ON [dbo].[ImportAuditLog]([TableName]);
+    CREATE NONCLUSTERED INDEX IX_ImportAuditLog_UserId ON [dbo].[ImportAuditLog]([UserId]);
+END
+GO
+
+-- Upgrade audit tables created by earlier versions of this script; every
+-- step checks first, so the script can be run again safely
+IF COL_LENGTH(N'dbo.ImportAuditLog', N'UserId') IS NULL
+    ALTER TABLE [dbo].[ImportAuditLog] ADD [UserId] NVARCHAR(255);
+IF COL_LENGTH(N'dbo.ImportAuditLog', N'ParentJobId') IS NULL
+    ALTER TABLE [dbo].[ImportAuditLog] ADD [ParentJobId] NVARCHAR(50);
+IF COL_LENGTH(N'dbo.ImportAuditLog', N'Mode') IS NULL
+    ALTER TABLE [dbo].[ImportAuditLog] ADD [Mode] NVARCHAR(20);
+IF COL_LENGTH(N'dbo.ImportAuditLog', N'ProcessedCount') IS NULL
+    ALTER TABLE [dbo].[ImportAuditLog] ADD [ProcessedCount] INT;
+IF COL_LENGTH(N'dbo.ImportAuditLog', N'InsertedCount') IS NULL
+    ALTER TABLE [dbo].[ImportAuditLog] ADD [InsertedCount] INT;
+IF COL_LENGTH(N'dbo.ImportAuditLog', N'UpdatedCount') IS NULL
+    ALTER TABLE [dbo].[ImportAuditLog] ADD [UpdatedCount] INT;
+IF COL_LENGTH(N'dbo.ImportAuditLog', N'UnchangedCount') IS NULL
+    ALTER TABLE [dbo].[ImportAuditLog] ADD [UnchangedCount] INT;
+IF COL_LENGTH(N'dbo.ImportAuditLog', N'UpdatedAt') IS NULL
+    ALTER TABLE [dbo].[ImportAuditLog] ADD [UpdatedAt] DATETIME2;
+GO
+
+-- Job ids were indexed without a unique constraint before; remove
+-- duplicate rows first if creating the unique index fails
+IF EXISTS (SELECT * FROM sys.indexes WHERE name = N'IX_ImportAuditLog_JobId' AND object_id = OBJECT_ID(N'[dbo].[ImportAuditLog]') AND is_unique = 0)
+BEGIN
+    DROP INDEX IX_ImportAuditLog_JobId ON [dbo].[ImportAuditLog];
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = N'IX_ImportAuditLog_JobId' AND object_id = OBJECT_ID(N'[dbo].[ImportAuditLog]'))
+BEGIN
+    CREATE UNIQUE NONCLUSTERED INDEX IX_ImportAuditLog_JobId ON [dbo].[ImportAuditLog]([JobId]);
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = N'IX_ImportAuditLog_TableName' AND object_id = OBJECT_ID(N'[dbo].[ImportAuditLog]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX IX_ImportAuditLog_TableName ON [dbo].[ImportAuditLog]([TableName]);
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = N'IX_ImportAuditLog_UserId' AND object_id = OBJECT_ID(N'[dbo].[ImportAuditLog]'))
+BEGIN
+    CREATE NONCLUSTERED INDEX IX_ImportAuditLog_UserId ON [dbo].[ImportAuditLog]([UserId]);
 END
 GO
 
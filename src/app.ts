@@ -4,6 +4,7 @@ import express, { Application } from 'express';
 import helmet from 'helmet';
 import { appConfig } from './config/app.config';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
+import adminRoutes from './routes/admin.routes';
 import healthRoutes from './routes/health.routes';
 import jobRoutes from './routes/job.routes';
 import uploadRoutes from './routes/upload.routes';
@@ -66,6 +67,7 @@ class App {
     // API routes
     this.app.use('/api/upload', uploadRoutes);
     this.app.use('/api/jobs', jobRoutes);
+    this.app.use('/api/admin', adminRoutes);
 
     // Root endpoint
     this.app.get('/', (_req, res) => {
@@ -9,7 +9,9 @@ export const appConfig = {
 
   upload: {
     maxFileSize: Number.parseInt(process.env.MAX_FILE_SIZE || '52428800', 10), // 50MB
-    allowedFileTypes: (process.env.ALLOWED_FILE_TYPES || '.xlsx').split(','),
+    allowedFileTypes: (process.env.ALLOWED_FILE_TYPES || '.xlsx,.csv,.tsv')
+      .split(',')
+      .map((type) => type.trim().toLowerCase()),
     tempPath: process.env.UPLOAD_TEMP_PATH || '/tmp/uploads',
   },
 
@@ -19,6 +21,12 @@ export const appConfig = {
       process.env.MAX_CONCURRENT_JOBS || '5',
       10
     ),
+    bisectThreshold: Number.parseInt(
+      process.env.BATCH_BISECT_THRESHOLD || '16',
+      10
+    ), // Failed chunks this small are inserted row by row
+    // Largest import allowed to run in a single transaction
+    maxAtomicRows: Number.parseInt(process.env.MAX_ATOMIC_ROWS || '100000', 10),
   },
 
   rateLimit: {
@@ -38,8 +46,64 @@ export const appConfig = {
     origin: process.env.CORS_ORIGIN || '*',
   },
 
+  validation: {
+    maxErrors: Number.parseInt(process.env.VALIDATION_MAX_ERRORS || '1000', 10),
+  },
+
   job: {
     retentionDays: Number.parseInt(process.env.JOB_RETENTION_DAYS || '7', 10),
+    maxFailedRecords: Number.parseInt(
+      process.env.JOB_MAX_FAILED_RECORDS || '1000',
+      10
+    ), // Failed rows kept in the job result
+    maxLogEntries: Number.parseInt(
+      process.env.JOB_MAX_LOG_ENTRIES || '1000',
+      10
+    ), // Most recent log entries kept per job
+    // Caps on the queue options an upload can set
+    maxAttempts: Number.parseInt(process.env.JOB_MAX_ATTEMPTS || '10', 10),
+    maxBackoffDelay: Number.parseInt(
+      process.env.JOB_MAX_BACKOFF_DELAY || '3600000',
+      10
+    ), // 1 hour
+    maxDelay: Number.parseInt(process.env.JOB_MAX_DELAY || '604800000', 10), // 7 days
+    maxTimeout: Number.parseInt(process.env.JOB_MAX_TIMEOUT || '14400000', 10), // 4 hours
+    // How long a paused job stays parked before it checks its pause again
+    pauseRecheckMs: Number.parseInt(
+      process.env.JOB_PAUSE_RECHECK_MS || '60000',
+      10
+    ), // 1 minute
+  },
+
+  webhook: {
+    secret: process.env.WEBHOOK_SECRET || '', // Webhooks are refused without one
+    attempts: Number.parseInt(process.env.WEBHOOK_ATTEMPTS || '5', 10),
+    backoffDelay: Number.parseInt(
+      process.env.WEBHOOK_BACKOFF_DELAY || '10000',
+      10
+    ), // Doubles after every failed attempt
+    timeoutMs: Number.parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+    // Hosts exempt from the private address check, e.g. receivers on the LAN
+    allowedPrivateHosts: (process.env.WEBHOOK_ALLOWED_PRIVATE_HOSTS || '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter((host) => host !== ''),
+  },
+
+  // Limits beyond which GET /health/queue reports the queue unhealthy
+  queueHealth: {
+    maxWaitingJobs: Number.parseInt(
+      process.env.QUEUE_HEALTH_MAX_WAITING_JOBS || '1000',
+      10
+    ),
+    maxWaitingAgeMs: Number.parseInt(
+      process.env.QUEUE_HEALTH_MAX_WAITING_AGE_MS || '900000',
+      10
+    ), // 15 minutes
+    minWorkers: Number.parseInt(
+      process.env.QUEUE_HEALTH_MIN_WORKERS || '1',
+      10
+    ),
   },
 };
 
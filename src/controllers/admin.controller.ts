@@ -0,0 +1,125 @@
+import { Request, Response } from 'express';
+import jobService from '../services/job.service';
+import webhookService from '../services/webhook.service';
+import { getCorrelationId } from '../utils/correlation-id';
+import logger from '../utils/logger';
+import { sendError, sendSuccess } from '../utils/response.util';
+
+class AdminController {
+  /**
+   * Get whether the queue is paused
+   */
+  async getQueueStatus(req: Request, res: Response): Promise<void> {
+    const correlationId = getCorrelationId(req);
+
+    try {
+      const paused = await jobService.isQueuePaused();
+      sendSuccess(res, { paused }, correlationId);
+    } catch (error) {
+      logger.error('Failed to get queue status:', {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      sendError(
+        res,
+        error instanceof Error ? error.message : 'Failed to get queue status',
+        correlationId,
+        500
+      );
+    }
+  }
+
+  /**
+   * Pause the queue
+   */
+  async pauseQueue(req: Request, res: Response): Promise<void> {
+    const correlationId = getCorrelationId(req);
+
+    try {
+      await jobService.pauseQueue();
+      sendSuccess(
+        res,
+        {
+          paused: true,
+          message: 'Queue paused; running jobs stop before their next batch',
+        },
+        correlationId
+      );
+    } catch (error) {
+      logger.error('Failed to pause queue:', {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      sendError(
+        res,
+        error instanceof Error ? error.message : 'Failed to pause queue',
+        correlationId,
+        500
+      );
+    }
+  }
+
+  /**
+   * Resume the queue
+   */
+  async resumeQueue(req: Request, res: Response): Promise<void> {
+    const correlationId = getCorrelationId(req);
+
+    try {
+      await jobService.resumeQueue();
+      sendSuccess(
+        res,
+        { paused: false, message: 'Queue resumed' },
+        correlationId
+      );
+    } catch (error) {
+      logger.error('Failed to resume queue:', {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      sendError(
+        res,
+        error instanceof Error ? error.message : 'Failed to resume queue',
+        correlationId,
+        500
+      );
+    }
+  }
+
+  /**
+   * List webhook deliveries that ran out of attempts, newest first
+   */
+  async listDeadLetters(req: Request, res: Response): Promise<void> {
+    const correlationId = getCorrelationId(req);
+    // Validated and defaulted by deadLetterQuerySchema
+    const { limit } = req.query as unknown as { limit: number };
+
+    try {
+      const deadLetters = await webhookService.listDeadLetters(limit);
+      sendSuccess(
+        res,
+        { deadLetters, count: deadLetters.length },
+        correlationId
+      );
+    } catch (error) {
+      logger.error('Failed to list webhook dead letters:', {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      sendError(
+        res,
+        error instanceof Error
+          ? error.message
+          : 'Failed to list webhook dead letters',
+        correlationId,
+        500
+      );
+    }
+  }
+}
+
+export default new AdminController();
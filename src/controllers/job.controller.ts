@@ -1,8 +1,46 @@
 import { Request, Response } from 'express';
+import path from 'node:path';
+import { v4 as uuidv4 } from 'uuid';
+import { appConfig } from '../config/app.config';
+import { cleanupFile } from '../middleware/upload.middleware';
+import errorReportService from '../services/error-report.service';
+import fileReaderService from '../services/file-reader.service';
+import jobEventsService, {
+  JobStreamEvent,
+} from '../services/job-events.service';
 import jobService from '../services/job.service';
+import webhookService from '../services/webhook.service';
+import {
+  FailedRowEdit,
+  JobData,
+  JobFilterOptions,
+  JobLogFilter,
+  JobStatisticsFilter,
+  JobStatus,
+  ReadOptions,
+  SheetImportConfig,
+} from '../types';
 import { getCorrelationId } from '../utils/correlation-id';
 import logger from '../utils/logger';
-import { sendError, sendSuccess } from '../utils/response.util';
+import {
+  sendError,
+  sendSuccess,
+  sendValidationError,
+} from '../utils/response.util';
+import { validateFile } from '../validators/upload.validator';
+
+// Statuses after which a job sends no more events
+const FINAL_STATUSES = new Set([
+  JobStatus.COMPLETED,
+  JobStatus.FAILED,
+  JobStatus.CANCELLED,
+]);
+
+// Comment lines sent to keep proxies from closing an idle event stream
+const EVENT_STREAM_HEARTBEAT_MS = 15 * 1000;
+
+// Redis stream IDs; anything else in Last-Event-ID is ignored
+const STREAM_ID_PATTERN = /^\d+-\d+$/;
 
 class JobController {
   /**
@@ -37,27 +75,21 @@ class JobController {
   }
 
   /**
-   * Get all jobs
+   * Get jobs from the history, filtered, sorted and paginated
    */
   async getAllJobs(req: Request, res: Response): Promise<void> {
     const correlationId = getCorrelationId(req);
-    const { status } = req.query;
+    // Validated and defaulted by jobQuerySchema
+    const filter = req.query as JobFilterOptions;
 
     try {
-      const validStatuses = ['pending', 'active', 'completed', 'failed'];
-      const statusFilter =
-        status && validStatuses.includes(status as string)
-          ? (status as 'pending' | 'active' | 'completed' | 'failed')
-          : undefined;
-
-      const jobs = await jobService.getAllJobs(statusFilter);
+      const page = await jobService.findJobs(filter);
 
       sendSuccess(
         res,
         {
-          jobs,
-          count: jobs.length,
-          filter: statusFilter || 'all',
+          ...page,
+          count: page.jobs.length,
         },
         correlationId
       );
@@ -77,28 +109,509 @@ class JobController {
   }
 
   /**
-   * Cancel job
+   * Get job statistics, optionally scoped by time window, table and user
    */
-  async cancelJob(req: Request, res: Response): Promise<void> {
+  async getStatistics(req: Request, res: Response): Promise<void> {
+    const correlationId = getCorrelationId(req);
+    // Validated by jobStatsQuerySchema
+    const filter = req.query as JobStatisticsFilter;
+
+    try {
+      const statistics = await jobService.getStatistics(filter);
+
+      sendSuccess(res, { ...statistics, filter }, correlationId);
+    } catch (error) {
+      logger.error('Failed to get job statistics:', {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      sendError(
+        res,
+        error instanceof Error ? error.message : 'Failed to get job statistics',
+        correlationId,
+        500
+      );
+    }
+  }
+
+  /**
+   * Stream a job's progress, state changes and result as Server-Sent Events
+   * A snapshot of the job is sent first; a client reconnecting with
+   * Last-Event-ID also gets the events it missed. The stream ends once
+   * the job has finished
+   */
+  async streamEvents(req: Request, res: Response): Promise<void> {
+    const correlationId = getCorrelationId(req);
+    const { jobId } = req.params;
+    const lastEventId = req.get('Last-Event-ID');
+
+    const snapshot = await jobService.getJobStatus(jobId);
+    if (!snapshot) {
+      sendError(res, `Job ${jobId} not found`, correlationId, 404);
+      return;
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    let unsubscribe = () => {};
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+      res.flush();
+    }, EVENT_STREAM_HEARTBEAT_MS);
+
+    const close = () => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+    req.on('close', close);
+
+    // The snapshot has no ID so a reconnect resumes from the last real event
+    const send = (type: string, data: unknown, id?: string) => {
+      if (closed) {
+        return;
+      }
+      res.write(
+        `${id ? `id: ${id}\n` : ''}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`
+      );
+      res.flush();
+    };
+
+    const isFinal = (event: JobStreamEvent) =>
+      event.type === 'completed' ||
+      (event.type === 'state' && FINAL_STATUSES.has(event.data.status));
+
+    try {
+      send('snapshot', snapshot);
+
+      unsubscribe = await jobEventsService.subscribe(
+        jobId,
+        {
+          onEvent: (event) => {
+            send(event.type, event.data, event.id);
+            if (isFinal(event)) {
+              close();
+            }
+          },
+          onClose: close,
+        },
+        lastEventId && STREAM_ID_PATTERN.test(lastEventId)
+          ? lastEventId
+          : undefined
+      );
+      if (closed) {
+        unsubscribe();
+        return;
+      }
+
+      // The job may have finished before the subscription started
+      const current = await jobService.getJobStatus(jobId);
+      if (!current || FINAL_STATUSES.has(current.status)) {
+        if (current && current.status !== snapshot.status) {
+          send('snapshot', current);
+        }
+        close();
+      }
+    } catch (error) {
+      logger.error(`Failed to stream events of job ${jobId}:`, {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      close();
+    }
+  }
+
+  /**
+   * Download the failed rows of a job as a workbook
+   */
+  async downloadErrorReport(req: Request, res: Response): Promise<void> {
+    const correlationId = getCorrelationId(req);
+    const { jobId } = req.params;
+
+    try {
+      const jobStatus = await jobService.getJobStatus(jobId);
+
+      if (!jobStatus) {
+        sendError(res, `Job ${jobId} not found`, correlationId, 404);
+        return;
+      }
+
+      if (!(await errorReportService.hasReport(jobId))) {
+        sendError(
+          res,
+          `Job ${jobId} has no failed rows to report`,
+          correlationId,
+          404
+        );
+        return;
+      }
+
+      res.setHeader(
+        'Content-Type',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${jobId}-errors.xlsx"`
+      );
+      await errorReportService.writeReport(jobId, res);
+    } catch (error) {
+      logger.error(`Failed to build error report for job ${jobId}:`, {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      // Part of the workbook may already be on its way to the client
+      if (res.headersSent) {
+        res.destroy(error as Error);
+        return;
+      }
+
+      sendError(
+        res,
+        error instanceof Error ? error.message : 'Failed to build error report',
+        correlationId,
+        500
+      );
+    }
+  }
+
+  /**
+   * Retry the failed rows of a completed job as a new job
+   * Takes a corrected file, or the stored failed rows with edits applied
+   */
+  async retryFailed(req: Request, res: Response): Promise<void> {
+    const correlationId = getCorrelationId(req);
+    const { jobId } = req.params;
+    const { edits = [] } = req.body as { edits?: FailedRowEdit[] };
+    let filePath = req.file?.path;
+
+    const reject = (message: string, statusCode: number) => {
+      if (filePath) {
+        cleanupFile(filePath);
+      }
+      sendError(res, message, correlationId, statusCode);
+    };
+
+    try {
+      const [parentStatus, parent] = await Promise.all([
+        jobService.getJobStatus(jobId),
+        jobService.getJobData(jobId),
+      ]);
+
+      if (!parentStatus || !parent) {
+        reject(`Job ${jobId} not found`, 404);
+        return;
+      }
+
+      // Retrying only the failed rows is right when every other row of the
+      // file was committed: a failed or cancelled job stopped part-way or
+      // rolled back, and a replace job never swaps in a table with failed
+      // rows
+      if (parentStatus.status !== JobStatus.COMPLETED) {
+        const stopped =
+          parentStatus.status === JobStatus.FAILED ||
+          parentStatus.status === JobStatus.CANCELLED;
+        reject(
+          stopped
+            ? `Job ${jobId} stopped before all of its rows were committed; upload the corrected full file as a new import instead`
+            : `Job ${jobId} has not finished yet`,
+          409
+        );
+        return;
+      }
+      if (
+        parent.mode === 'replace' ||
+        parent.sheets?.some((sheet) => sheet.mode === 'replace')
+      ) {
+        reject(
+          `Job ${jobId} replaced its table, which keeps no rows unless all of them load; upload the corrected full file as a new import instead`,
+          409
+        );
+        return;
+      }
+
+      let fileName: string;
+      let readOptions: ReadOptions;
+
+      if (req.file) {
+        const fileValidation = validateFile(req.file);
+        if (!fileValidation.isValid) {
+          reject(fileValidation.error ?? 'File validation failed', 400);
+          return;
+        }
+        if (edits.length > 0) {
+          reject('Send either a corrected file or edits, not both', 400);
+          return;
+        }
+
+        filePath = req.file.path;
+        fileName = req.file.originalname;
+        readOptions = fileReaderService.getReadOptions(filePath, req.body);
+      } else {
+        if (!(await errorReportService.hasReport(jobId))) {
+          reject(`Job ${jobId} has no failed rows to retry`, 404);
+          return;
+        }
+        if (parent.sheets && edits.some((edit) => !edit.sheetName)) {
+          reject('Edits of a multi-sheet job must name their sheet', 400);
+          return;
+        }
+
+        // Stored rows are written out as an error report and imported again
+        filePath = path.join(
+          appConfig.upload.tempPath,
+          `${uuidv4()}-${Date.now()}.xlsx`
+        );
+        fileName = `${jobId}-errors.xlsx`;
+        readOptions = { skipRows: 0 };
+
+        const problems = await errorReportService.writeRetryFile(
+          jobId,
+          filePath,
+          parent.sheets
+            ? edits
+            : edits.map((edit) => ({ ...edit, sheetName: parent.sheetName }))
+        );
+        if (problems.length > 0) {
+          cleanupFile(filePath);
+          sendValidationError(
+            res,
+            problems.map((message) => ({ field: 'edits', message })),
+            correlationId
+          );
+          return;
+        }
+      }
+
+      const retryJob = await this.buildRetryJob(
+        parent,
+        filePath,
+        fileName,
+        readOptions
+      );
+      if (retryJob.totalRecords === 0) {
+        reject('No rows to retry', 400);
+        return;
+      }
+
+      const retryJobId = uuidv4();
+      await jobService.addJob(
+        {
+          ...retryJob,
+          jobId: retryJobId,
+          correlationId,
+          parentJobId: jobId,
+          createdAt: new Date(),
+        },
+        { priority: parent.priority, timeout: parent.timeout }
+      );
+
+      logger.info(
+        `Job ${retryJobId} created to retry failed rows of ${jobId}`,
+        {
+          correlationId,
+          rowCount: retryJob.totalRecords,
+        }
+      );
+
+      sendSuccess(
+        res,
+        {
+          jobId: retryJobId,
+          parentJobId: jobId,
+          message: 'Failed rows queued for retry.',
+          fileName,
+          totalRecords: retryJob.totalRecords,
+        },
+        correlationId,
+        202
+      );
+    } catch (error) {
+      logger.error(`Failed to retry failed rows of job ${jobId}:`, {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      reject(
+        error instanceof Error ? error.message : 'Failed to retry failed rows',
+        500
+      );
+    }
+  }
+
+  /**
+   * List a job's webhook deliveries with every attempt
+   */
+  async listWebhooks(req: Request, res: Response): Promise<void> {
     const correlationId = getCorrelationId(req);
     const { jobId } = req.params;
 
     try {
-      const cancelled = await jobService.cancelJob(jobId);
+      const deliveries = await webhookService.listDeliveries(jobId);
+
+      // Deliveries outlive jobs removed from the queue
+      if (deliveries.length === 0 && !(await jobService.getJobStatus(jobId))) {
+        sendError(res, `Job ${jobId} not found`, correlationId, 404);
+        return;
+      }
+
+      sendSuccess(
+        res,
+        { jobId, deliveries, count: deliveries.length },
+        correlationId
+      );
+    } catch (error) {
+      logger.error(`Failed to list webhooks of job ${jobId}:`, {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      sendError(
+        res,
+        error instanceof Error ? error.message : 'Failed to list webhooks',
+        correlationId,
+        500
+      );
+    }
+  }
+
+  /**
+   * Get a page of a job's log
+   */
+  async getJobLogs(req: Request, res: Response): Promise<void> {
+    const correlationId = getCorrelationId(req);
+    const { jobId } = req.params;
+    // Validated by jobLogQuerySchema
+    const filter = req.query as JobLogFilter;
+
+    try {
+      const page = await jobService.getJobLogs(jobId, filter);
+
+      // Logs outlive jobs removed from the queue
+      if (page.total === 0 && !(await jobService.getJobStatus(jobId))) {
+        sendError(res, `Job ${jobId} not found`, correlationId, 404);
+        return;
+      }
+
+      sendSuccess(res, { jobId, ...page }, correlationId);
+    } catch (error) {
+      logger.error(`Failed to get logs of job ${jobId}:`, {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      sendError(
+        res,
+        error instanceof Error ? error.message : 'Failed to get job logs',
+        correlationId,
+        500
+      );
+    }
+  }
+
+  /**
+   * Send a webhook delivery of a job again
+   */
+  async redeliverWebhook(req: Request, res: Response): Promise<void> {
+    const correlationId = getCorrelationId(req);
+    const { jobId, deliveryId } = req.params;
+
+    try {
+      if (!webhookService.isEnabled()) {
+        sendError(
+          res,
+          'Webhooks are not enabled on this service',
+          correlationId,
+          409
+        );
+        return;
+      }
 
-      if (!cancelled) {
+      const delivery = await webhookService.redeliver(jobId, deliveryId);
+      if (!delivery) {
         sendError(
           res,
-          `Job ${jobId} not found or cannot be cancelled`,
+          `Webhook delivery ${deliveryId} of job ${jobId} not found`,
           correlationId,
-          400
+          404
         );
         return;
       }
 
       sendSuccess(
         res,
-        { message: `Job ${jobId} cancelled successfully` },
+        {
+          delivery,
+          message: `Webhook delivery ${deliveryId} queued again as ${delivery.deliveryId}`,
+        },
+        correlationId,
+        202
+      );
+    } catch (error) {
+      logger.error(`Failed to redeliver webhook ${deliveryId}:`, {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      sendError(
+        res,
+        error instanceof Error ? error.message : 'Failed to redeliver webhook',
+        correlationId,
+        500
+      );
+    }
+  }
+
+  /**
+   * Pause a running or queued job at its next batch boundary
+   */
+  async pauseJob(req: Request, res: Response): Promise<void> {
+    await this.controlJob(req, res, 'pause');
+  }
+
+  /**
+   * Resume a paused job from its checkpoint
+   */
+  async resumeJob(req: Request, res: Response): Promise<void> {
+    await this.controlJob(req, res, 'resume');
+  }
+
+  /**
+   * Cancel job
+   */
+  async cancelJob(req: Request, res: Response): Promise<void> {
+    const correlationId = getCorrelationId(req);
+    const { jobId } = req.params;
+    const { rollback } = req.query as unknown as { rollback: boolean };
+
+    try {
+      const refusal = await jobService.cancelJob(jobId, { rollback });
+
+      if (refusal) {
+        sendError(res, refusal, correlationId, 400);
+        return;
+      }
+
+      sendSuccess(
+        res,
+        {
+          message: rollback
+            ? `Cancellation of job ${jobId} requested; it stops before its next batch and deletes the rows it inserted`
+            : `Cancellation of job ${jobId} requested; it stops before its next batch`,
+        },
         correlationId
       );
     } catch (error) {
@@ -115,6 +628,118 @@ class JobController {
       );
     }
   }
+
+  /**
+   * Pause or resume a job, answering 404 for unknown jobs and 409 when
+   * the job is not in a state that allows it
+   */
+  private async controlJob(
+    req: Request,
+    res: Response,
+    action: 'pause' | 'resume'
+  ): Promise<void> {
+    const correlationId = getCorrelationId(req);
+    const { jobId } = req.params;
+
+    try {
+      const jobStatus = await jobService.getJobStatus(jobId);
+
+      if (!jobStatus) {
+        sendError(res, `Job ${jobId} not found`, correlationId, 404);
+        return;
+      }
+
+      const refusal =
+        action === 'pause'
+          ? await jobService.pauseJob(jobId)
+          : await jobService.resumeJob(jobId);
+      if (refusal) {
+        sendError(res, refusal, correlationId, 409);
+        return;
+      }
+
+      sendSuccess(
+        res,
+        {
+          message:
+            action === 'pause'
+              ? `Pause of job ${jobId} requested; it stops before its next batch`
+              : `Job ${jobId} resumed`,
+        },
+        correlationId
+      );
+    } catch (error) {
+      logger.error(`Failed to ${action} job ${jobId}:`, {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      sendError(
+        res,
+        error instanceof Error ? error.message : `Failed to ${action} job`,
+        correlationId,
+        500
+      );
+    }
+  }
+
+  /**
+   * Job data for a retry: the parent's tables, mapping, mode and failure
+   * policy applied to the retry file
+   */
+  private async buildRetryJob(
+    parent: JobData,
+    filePath: string,
+    fileName: string,
+    readOptions: ReadOptions
+  ): Promise<Omit<JobData, 'jobId' | 'correlationId'>> {
+    let sheets: SheetImportConfig[] | undefined;
+    let totalRecords: number;
+
+    if (parent.sheets) {
+      // Only the parent's sheets that are present in the retry file
+      const { worksheets } = await fileReaderService.inspectFile(
+        filePath,
+        fileName,
+        0,
+        readOptions
+      );
+      sheets = [];
+      totalRecords = 0;
+      for (const sheet of parent.sheets) {
+        const worksheet = worksheets.find((ws) => ws.name === sheet.sheetName);
+        if (worksheet) {
+          sheets.push({
+            ...sheet,
+            skipRows: readOptions.skipRows,
+          });
+          totalRecords += worksheet.rowCount;
+        }
+      }
+    } else {
+      totalRecords = await fileReaderService.getRowCount(filePath, readOptions);
+    }
+
+    return {
+      fileName,
+      filePath,
+      totalRecords,
+      tableName: parent.tableName,
+      sheetName: parent.sheets ? undefined : readOptions.sheetName,
+      columnMapping: parent.columnMapping,
+      skipRows: readOptions.skipRows,
+      csvOptions: readOptions.csvOptions,
+      mode: parent.mode,
+      keyColumns: parent.keyColumns,
+      atomic: parent.atomic,
+      maxFailedRows: parent.maxFailedRows,
+      maxFailedPercentage: parent.maxFailedPercentage,
+      stopOnFirstError: parent.stopOnFirstError,
+      sheets,
+      userId: parent.userId,
+      callback: parent.callback,
+    };
+  }
 }
 
 export default new JobController();
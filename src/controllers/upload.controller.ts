@@ -1,18 +1,37 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
+import { appConfig } from '../config/app.config';
 import { cleanupFile } from '../middleware/upload.middleware';
-import excelService from '../services/excel.service';
+import fileReaderService from '../services/file-reader.service';
 import importService from '../services/import.service';
 import jobService from '../services/job.service';
-import { JobData } from '../types';
+import webhookService from '../services/webhook.service';
+import {
+  JobData,
+  JobOptions,
+  JobPriority,
+  SheetImportConfig,
+  WebhookConfig,
+} from '../types';
 import { getCorrelationId } from '../utils/correlation-id';
 import logger from '../utils/logger';
-import { sendError, sendSuccess } from '../utils/response.util';
+import {
+  sendError,
+  sendSuccess,
+  sendValidationError,
+} from '../utils/response.util';
 import { validateFile } from '../validators/upload.validator';
 
+// Sent when an upload names a callbackUrl without choosing events
+const DEFAULT_CALLBACK_EVENTS: WebhookConfig['events'] = [
+  'completed',
+  'failed',
+];
+const DEFAULT_PROGRESS_MILESTONES = [25, 50, 75];
+
 class UploadController {
   /**
-   * Upload and process Excel file
+   * Upload and process Excel or CSV file
    */
   async uploadFile(req: Request, res: Response): Promise<void> {
     const correlationId = getCorrelationId(req);
@@ -38,24 +57,70 @@ class UploadController {
       }
 
       filePath = req.file.path;
-      const { tableName, sheetName, columnMapping, skipRows, validateOnly } =
-        req.body;
+      const {
+        tableName,
+        columnMapping,
+        mode,
+        keyColumns,
+        atomic,
+        maxFailedRows,
+        maxFailedPercentage,
+        stopOnFirstError,
+        sheets,
+        validateOnly,
+        userId,
+        callbackUrl,
+        callbackEvents,
+        progressMilestones,
+        priority,
+        delay,
+        scheduledAt,
+        attempts,
+        backoff,
+        timeout,
+      } = req.body;
+      const readOptions = fileReaderService.getReadOptions(filePath, req.body);
+
+      if (callbackUrl && !webhookService.isEnabled()) {
+        cleanupFile(filePath);
+        sendError(
+          res,
+          'Webhooks are not enabled on this service',
+          correlationId,
+          400
+        );
+        return;
+      }
+
+      if (sheets && fileReaderService.isDelimitedFile(filePath)) {
+        cleanupFile(filePath);
+        sendError(
+          res,
+          'Multi-sheet import requires an .xlsx workbook',
+          correlationId,
+          400
+        );
+        return;
+      }
 
       logger.info('File upload received', {
         correlationId,
         fileName: req.file.originalname,
         tableName,
+        sheets: sheets?.length,
         fileSize: req.file.size,
       });
 
       // If validation only, don't queue the job
       if (validateOnly === true || validateOnly === 'true') {
-        const validation = await importService.validateImport(
-          filePath,
-          tableName,
-          sheetName,
-          Number.parseInt(skipRows || '0')
-        );
+        const validation = sheets
+          ? await importService.validateWorkbook(filePath, sheets)
+          : await importService.validateImport(filePath, tableName, {
+              ...readOptions,
+              columnMapping,
+              mode,
+              keyColumns,
+            });
 
         cleanupFile(filePath);
 
@@ -69,22 +134,29 @@ class UploadController {
             correlationId
           );
         } else {
-          sendError(
-            res,
-            `Validation failed: ${validation.errors.join(', ')}`,
-            correlationId,
-            400
-          );
+          sendValidationError(res, validation.errors, correlationId, {
+            rowCount: validation.rowCount,
+            invalidRowCount: validation.invalidRowCount,
+          });
         }
         return;
       }
 
       // Get row count for job tracking
-      const rowCount = await excelService.getRowCount(
-        filePath,
-        sheetName,
-        Number.parseInt(skipRows || '0')
-      );
+      const rowCount = sheets
+        ? await this.countSheetRows(filePath, sheets)
+        : await fileReaderService.getRowCount(filePath, readOptions);
+
+      if (atomic && rowCount > appConfig.batch.maxAtomicRows) {
+        cleanupFile(filePath);
+        sendError(
+          res,
+          `Atomic imports are limited to ${appConfig.batch.maxAtomicRows} rows; this file has ${rowCount}`,
+          correlationId,
+          400
+        );
+        return;
+      }
 
       // Create job data
       const jobId = uuidv4();
@@ -94,12 +166,37 @@ class UploadController {
         filePath,
         totalRecords: rowCount,
         correlationId,
-        tableName,
-        columnMapping: columnMapping ? JSON.parse(columnMapping) : undefined,
+        tableName: sheets
+          ? sheets.map((sheet: SheetImportConfig) => sheet.tableName).join(',')
+          : tableName,
+        sheetName: readOptions.sheetName,
+        columnMapping,
+        skipRows: readOptions.skipRows,
+        csvOptions: readOptions.csvOptions,
+        mode,
+        keyColumns,
+        atomic,
+        maxFailedRows,
+        maxFailedPercentage,
+        stopOnFirstError,
+        sheets,
+        userId,
+        createdAt: new Date(),
+        callback: callbackUrl
+          ? this.buildCallback(callbackUrl, callbackEvents, progressMilestones)
+          : undefined,
       };
 
       // Add job to queue
-      await jobService.addJob(jobData);
+      const jobOptions = this.buildJobOptions({
+        priority,
+        delay,
+        scheduledAt,
+        attempts,
+        backoff,
+        timeout,
+      });
+      await jobService.addJob(jobData, jobOptions);
 
       logger.info(`Job ${jobId} created for file ${req.file.originalname}`, {
         correlationId,
@@ -111,9 +208,15 @@ class UploadController {
         res,
         {
           jobId,
-          message: 'File uploaded successfully. Processing started.',
+          message: jobOptions.delay
+            ? 'File uploaded successfully. Processing is scheduled.'
+            : 'File uploaded successfully. Processing started.',
           fileName: req.file.originalname,
           totalRecords: rowCount,
+          priority: priority ?? 'normal',
+          scheduledAt: jobOptions.delay
+            ? new Date(Date.now() + jobOptions.delay)
+            : undefined,
         },
         correlationId,
         202
@@ -138,7 +241,7 @@ class UploadController {
   }
 
   /**
-   * Validate Excel file without importing
+   * Validate Excel or CSV file without importing
    */
   async validateFile(req: Request, res: Response): Promise<void> {
     const correlationId = getCorrelationId(req);
@@ -163,14 +266,16 @@ class UploadController {
       }
 
       filePath = req.file.path;
-      const { tableName, sheetName, skipRows } = req.body;
+      const { tableName, columnMapping, mode, keyColumns, sheets } = req.body;
 
-      const validation = await importService.validateImport(
-        filePath,
-        tableName,
-        sheetName,
-        Number.parseInt(skipRows || '0')
-      );
+      const validation = sheets
+        ? await importService.validateWorkbook(filePath, sheets)
+        : await importService.validateImport(filePath, tableName, {
+            ...fileReaderService.getReadOptions(filePath, req.body),
+            columnMapping,
+            mode,
+            keyColumns,
+          });
 
       cleanupFile(filePath);
 
@@ -184,15 +289,70 @@ class UploadController {
           correlationId
         );
       } else {
+        sendValidationError(res, validation.errors, correlationId, {
+          rowCount: validation.rowCount,
+          invalidRowCount: validation.invalidRowCount,
+        });
+      }
+    } catch (error) {
+      logger.error('Validation failed:', {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      if (filePath) {
+        cleanupFile(filePath);
+      }
+
+      sendError(
+        res,
+        error instanceof Error ? error.message : 'Validation failed',
+        correlationId,
+        500
+      );
+    }
+  }
+
+  /**
+   * Inspect Excel or CSV file without importing
+   */
+  async inspectFile(req: Request, res: Response): Promise<void> {
+    const correlationId = getCorrelationId(req);
+    let filePath: string | undefined;
+
+    try {
+      if (!req.file) {
+        sendError(res, 'No file uploaded', correlationId, 400);
+        return;
+      }
+
+      const fileValidation = validateFile(req.file);
+      if (!fileValidation.isValid) {
+        cleanupFile(req.file.path);
         sendError(
           res,
-          `Validation failed: ${validation.errors.join(', ')}`,
+          fileValidation.error ?? 'File validation failed',
           correlationId,
           400
         );
+        return;
       }
+
+      filePath = req.file.path;
+      const { sampleSize } = req.body;
+
+      const inspection = await fileReaderService.inspectFile(
+        filePath,
+        req.file.originalname,
+        sampleSize,
+        fileReaderService.getReadOptions(filePath, req.body)
+      );
+
+      cleanupFile(filePath);
+
+      sendSuccess(res, inspection, correlationId);
     } catch (error) {
-      logger.error('Validation failed:', {
+      logger.error('Inspection failed:', {
         correlationId,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
@@ -203,12 +363,72 @@ class UploadController {
 
       sendError(
         res,
-        error instanceof Error ? error.message : 'Validation failed',
+        error instanceof Error ? error.message : 'Inspection failed',
         correlationId,
         500
       );
     }
   }
+
+  /**
+   * Total data rows across all sheets of a multi-sheet import
+   */
+  private async countSheetRows(
+    filePath: string,
+    sheets: SheetImportConfig[]
+  ): Promise<number> {
+    let rowCount = 0;
+    for (const sheet of sheets) {
+      rowCount += await fileReaderService.getRowCount(filePath, {
+        sheetName: sheet.sheetName,
+        skipRows: sheet.skipRows,
+      });
+    }
+    return rowCount;
+  }
+
+  /**
+   * Queue options of an upload; scheduledAt becomes a delay from now
+   */
+  private buildJobOptions(fields: {
+    priority?: string;
+    delay?: number;
+    scheduledAt?: Date;
+    attempts?: number;
+    backoff?: JobOptions['backoff'];
+    timeout?: number;
+  }): JobOptions {
+    const { priority, delay, scheduledAt, attempts, backoff, timeout } = fields;
+    return {
+      priority: priority
+        ? JobPriority[priority.toUpperCase() as keyof typeof JobPriority]
+        : undefined,
+      delay: scheduledAt
+        ? Math.max(scheduledAt.getTime() - Date.now(), 0)
+        : delay,
+      attempts,
+      backoff,
+      timeout,
+    };
+  }
+
+  /**
+   * Webhook settings of an upload, with defaults for the unset ones
+   * Milestones only apply when progress events are requested
+   */
+  private buildCallback(
+    url: string,
+    events: WebhookConfig['events'] = DEFAULT_CALLBACK_EVENTS,
+    progressMilestones: number[] = DEFAULT_PROGRESS_MILESTONES
+  ): WebhookConfig {
+    return {
+      url,
+      events,
+      progressMilestones: events.includes('progress')
+        ? progressMilestones
+        : undefined,
+    };
+  }
 }
 
 // Export instance as default
@@ -4,6 +4,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { v4 as uuidv4 } from 'uuid';
 import { appConfig } from '../config/app.config';
+import { allowedMimeTypes } from '../validators/upload.validator';
 
 // Ensure upload directory exists
 const uploadDir = appConfig.upload.tempPath;
@@ -30,18 +31,19 @@ const fileFilter = (
   file: Express.Multer.File,
   cb: multer.FileFilterCallback
 ) => {
-  const allowedMimeTypes = [
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'application/vnd.ms-excel',
-  ];
+  const allowedExtensions = appConfig.upload.allowedFileTypes;
 
   if (
     allowedMimeTypes.includes(file.mimetype) &&
-    file.originalname.endsWith('.xlsx')
+    allowedExtensions.includes(path.extname(file.originalname).toLowerCase())
   ) {
     cb(null, true);
   } else {
-    cb(new Error('Invalid file type. Only .xlsx files are allowed'));
+    cb(
+      new Error(
+        `Invalid file type. Only ${allowedExtensions.join(', ')} files are allowed`
+      )
+    );
   }
 };
 
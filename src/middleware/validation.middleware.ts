@@ -26,3 +26,27 @@ export const validate = (schema: Joi.ObjectSchema) => {
     next();
   };
 };
+
+/**
+ * Validate query string against Joi schema
+ */
+export const validateQuery = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { error, value } = schema.validate(req.query, {
+      abortEarly: false,
+      stripUnknown: true,
+    });
+
+    if (error) {
+      const errors = error.details.map((detail) => ({
+        field: detail.path.join('.'),
+        message: detail.message,
+      }));
+      sendValidationError(res, errors, getCorrelationId(req));
+      return;
+    }
+
+    req.query = value;
+    next();
+  };
+};
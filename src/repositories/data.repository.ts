@@ -1,17 +1,45 @@
 import sql from 'mssql';
 import DatabaseConnection from '../config/database.config';
-import { BatchInsertResult, ImportRecord } from '../types';
+import {
+  BatchInsertResult,
+  ColumnMetadata,
+  ImportMode,
+  ImportRecord,
+} from '../types';
 import logger from '../utils/logger';
+import {
+  CoercionError,
+  coerceValue,
+  formatSqlType,
+  quoteIdentifier,
+  toSqlType,
+} from '../utils/sql-type.util';
 
 // SQL Server query result types
 interface TableCountResult {
   count: number;
 }
 
+interface MergeActionResult {
+  action: 'INSERT' | 'UPDATE' | 'DELETE';
+}
+
 interface ColumnNameResult {
   COLUMN_NAME: string;
 }
 
+interface ColumnSchemaResult {
+  COLUMN_NAME: string;
+  DATA_TYPE: string;
+  CHARACTER_MAXIMUM_LENGTH: number | null;
+  NUMERIC_PRECISION: number | null;
+  NUMERIC_SCALE: number | null;
+  IS_NULLABLE: 'YES' | 'NO';
+  COLUMN_DEFAULT: string | null;
+  IS_IDENTITY: number | null;
+  IS_COMPUTED: number | null;
+}
+
 class DataRepository {
   private readonly db: DatabaseConnection;
 
@@ -20,12 +48,14 @@ class DataRepository {
   }
 
   /**
-   * Bulk insert records using Table-Valued Parameters
-   * This is the most efficient method for SQL Server bulk inserts
+   * Insert records one row at a time within a transaction
+   * Slower than the TVP path, but a failing row is reported on its own
+   * while the other rows are still inserted
    */
   async bulkInsert(
     tableName: string,
     records: ImportRecord[],
+    tableColumns: ColumnMetadata[],
     columnMapping?: Record<string, string>
   ): Promise<BatchInsertResult> {
     const pool = this.db.getPool();
@@ -37,18 +67,15 @@ class DataRepository {
     try {
       await transaction.begin();
 
-      // Get table columns from the first record
-      const sampleRecord = records[0];
-      const columns = Object.keys(sampleRecord);
-
-      // Apply column mapping if provided
-      const mappedColumns = columnMapping
-        ? columns.map((col) => columnMapping[col] || col)
-        : columns;
+      // Rows may omit trailing empty cells, so collect keys from every record
+      const columns = [...new Set(records.flatMap(Object.keys))];
+      const targets = columns.map((col) =>
+        this.resolveColumn(tableColumns, columnMapping?.[col] || col, tableName)
+      );
 
       // Build the INSERT query with parameterized values
-      const columnList = mappedColumns.join(', ');
-      const valuesList = mappedColumns.map((_, i) => `@col${i}`).join(', ');
+      const columnList = targets.map((target) => target.name).join(', ');
+      const valuesList = targets.map((_, i) => `@col${i}`).join(', ');
       const insertQuery = `INSERT INTO ${tableName} (${columnList}) VALUES (${valuesList})`;
 
       // Prepare request
@@ -64,10 +91,9 @@ class DataRepository {
 
           // Add parameters for each column
           for (let index = 0; index < columns.length; index++) {
-            const col = columns[index];
-            const value = record[col];
-            const sqlType = this.inferSqlType(value);
-            request.input(`col${index}`, sqlType, value);
+            const target = targets[index];
+            const value = this.coerceCell(record[columns[index]], target);
+            request.input(`col${index}`, toSqlType(target), value);
           }
 
           await request.query(insertQuery);
@@ -101,56 +127,361 @@ class DataRepository {
   /**
    * Optimized bulk insert using TVP (Table-Valued Parameters)
    * Most efficient for large batches
+   * Column types come from the destination table's metadata and every cell
+   * is coerced to its column's type; rows with a cell that cannot be
+   * converted are left out and reported per cell
+   * Runs inside the given transaction when one is passed
    */
   async bulkInsertWithTVP(
     tableName: string,
     records: ImportRecord[],
-    columnMapping?: Record<string, string>
+    tableColumns: ColumnMetadata[],
+    columnMapping?: Record<string, string>,
+    transaction?: sql.Transaction
   ): Promise<BatchInsertResult> {
     const pool = this.db.getPool();
 
     try {
-      // Create table from records
-      const table = new sql.Table(tableName);
-      table.create = false; // Table must exist
-
-      // Get columns from first record
-      const sampleRecord = records[0];
-      const columns = Object.keys(sampleRecord);
-
-      // Define table columns with inferred types
-      for (const col of columns) {
-        const mappedCol = columnMapping?.[col] || col;
-        const sampleValue = sampleRecord[col];
-        const sqlType = this.inferSqlType(sampleValue);
-        table.columns.add(mappedCol, sqlType, { nullable: true });
+      const { table, errors } = this.buildTable(
+        tableName,
+        tableName,
+        records,
+        tableColumns,
+        columnMapping
+      );
+
+      const inserted = records.length - errors.length;
+      if (inserted > 0) {
+        // Execute bulk insert
+        const request = (transaction ?? pool).request();
+        await request.bulk(table);
       }
 
-      // Add rows to table
-      for (const record of records) {
-        const row = columns.map((col) => record[col]);
-        table.rows.add(...row);
+      logger.info(
+        `TVP bulk insert completed: ${inserted} inserted, ${errors.length} failed`
+      );
+
+      return {
+        inserted,
+        failed: errors.length,
+        errors,
+      };
+    } catch (error) {
+      logger.error('TVP bulk insert failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Upsert or update records matched on key columns
+   * The batch is bulk loaded into a session temp table shaped like the
+   * target, then MERGEd in the same transaction. Matched rows are only
+   * updated when a value differs; in update-only mode unmatched rows
+   * are counted as unchanged
+   * Runs inside the given transaction when one is passed, otherwise in
+   * its own
+   */
+  async mergeWithTVP(
+    tableName: string,
+    records: ImportRecord[],
+    tableColumns: ColumnMetadata[],
+    keyColumns: string[],
+    mode: Extract<ImportMode, 'upsert' | 'update-only'>,
+    columnMapping?: Record<string, string>,
+    outerTransaction?: sql.Transaction
+  ): Promise<BatchInsertResult> {
+    const pool = this.db.getPool();
+    const transaction = outerTransaction ?? pool.transaction();
+    const staging = '#ImportStaging';
+    let begun = false;
+
+    try {
+      const { table, targets, errors } = this.buildTable(
+        staging,
+        tableName,
+        records,
+        tableColumns,
+        columnMapping
+      );
+
+      const loaded = records.length - errors.length;
+      if (loaded === 0) {
+        return {
+          inserted: 0,
+          updated: 0,
+          unchanged: 0,
+          failed: errors.length,
+          errors,
+        };
       }
 
-      // Execute bulk insert
-      const request = pool.request();
-      await request.bulk(table);
+      const columns = targets.map((target) => quoteIdentifier(target.name));
+      const keys = keyColumns.map((key) =>
+        quoteIdentifier(this.resolveColumn(tableColumns, key, tableName).name)
+      );
+      const valueColumns = columns.filter((col) => !keys.includes(col));
+
+      const matchOn = keys.map((key) => `t.${key} = s.${key}`).join(' AND ');
+      const whenMatched =
+        valueColumns.length > 0
+          ? `WHEN MATCHED AND EXISTS (
+              SELECT ${valueColumns.map((col) => `s.${col}`).join(', ')}
+              EXCEPT
+              SELECT ${valueColumns.map((col) => `t.${col}`).join(', ')}
+            ) THEN UPDATE SET ${valueColumns.map((col) => `t.${col} = s.${col}`).join(', ')}`
+          : '';
+      const whenNotMatched =
+        mode === 'upsert'
+          ? `WHEN NOT MATCHED BY TARGET THEN
+              INSERT (${columns.join(', ')})
+              VALUES (${columns.map((col) => `s.${col}`).join(', ')})`
+          : '';
+
+      if (!outerTransaction) {
+        await transaction.begin();
+        begun = true;
+      }
+
+      await transaction
+        .request()
+        .query(
+          `SELECT TOP 0 ${this.stagingColumns(targets)} INTO ${staging} FROM ${tableName}`
+        );
+      await transaction.request().bulk(table);
+
+      const result = await transaction.request().query<MergeActionResult>(`
+        MERGE ${tableName} WITH (HOLDLOCK) AS t
+        USING ${staging} AS s
+        ON ${matchOn}
+        ${whenMatched}
+        ${whenNotMatched}
+        OUTPUT $action AS action;
+      `);
+
+      await transaction.request().query(`DROP TABLE ${staging}`);
+      if (!outerTransaction) {
+        await transaction.commit();
+      }
+
+      const actions = result.recordset.map((row) => row.action);
+      const inserted = actions.filter((action) => action === 'INSERT').length;
+      const updated = actions.filter((action) => action === 'UPDATE').length;
+      const unchanged = loaded - inserted - updated;
 
       logger.info(
-        `TVP bulk insert completed: ${records.length} records inserted`
+        `Merge completed: ${inserted} inserted, ${updated} updated, ${unchanged} unchanged, ${errors.length} failed`
       );
 
       return {
-        inserted: records.length,
-        failed: 0,
-        errors: [],
+        inserted,
+        updated,
+        unchanged,
+        failed: errors.length,
+        errors,
       };
     } catch (error) {
-      logger.error('TVP bulk insert failed:', error);
+      if (begun) {
+        // SQL Server may already have rolled back an aborted transaction
+        await transaction
+          .rollback()
+          .catch((rollbackError) =>
+            logger.warn('Merge rollback failed:', rollbackError)
+          );
+      }
+      logger.error('Merge failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete one row of the table for each record, matched on every column
+   * the records hold, to undo the rows an import inserted
+   * Where several rows hold the same values, only as many are deleted as
+   * there are records, newest identity first when the table has one.
+   * Records that cannot be coerced were never inserted and are skipped
+   */
+  async deleteMatchingRows(
+    tableName: string,
+    records: ImportRecord[],
+    tableColumns: ColumnMetadata[],
+    columnMapping: Record<string, string> | undefined,
+    transaction: sql.Transaction
+  ): Promise<number> {
+    const staging = '#ImportRollback';
+
+    try {
+      const { table, targets, errors } = this.buildTable(
+        staging,
+        tableName,
+        records,
+        tableColumns,
+        columnMapping
+      );
+      if (records.length === errors.length) {
+        return 0;
+      }
+
+      const columns = targets.map((target) => quoteIdentifier(target.name));
+      const identity = tableColumns.find((column) => column.isIdentity);
+      const newestFirst = identity
+        ? `${quoteIdentifier(identity.name)} DESC`
+        : '(SELECT NULL)';
+
+      await transaction
+        .request()
+        .query(
+          `SELECT TOP 0 ${this.stagingColumns(targets)} INTO ${staging} FROM ${tableName}`
+        );
+      await transaction.request().bulk(table);
+
+      // INTERSECT matches NULLs, which = does not
+      const result = await transaction.request().query(`
+        WITH t AS (
+          SELECT ${columns.join(', ')},
+            ROW_NUMBER() OVER (
+              PARTITION BY ${columns.join(', ')} ORDER BY ${newestFirst}
+            ) AS [__ImportRowNumber]
+          FROM ${tableName}
+        )
+        DELETE FROM t
+        WHERE EXISTS (
+          SELECT 1
+          FROM (
+            SELECT ${columns.join(', ')}, COUNT(*) AS [__ImportRowCount]
+            FROM ${staging}
+            GROUP BY ${columns.join(', ')}
+          ) AS s
+          WHERE t.[__ImportRowNumber] <= s.[__ImportRowCount]
+            AND EXISTS (
+              SELECT ${columns.map((col) => `t.${col}`).join(', ')}
+              INTERSECT
+              SELECT ${columns.map((col) => `s.${col}`).join(', ')}
+            )
+        );
+      `);
+
+      await transaction.request().query(`DROP TABLE ${staging}`);
+
+      const deleted = result.rowsAffected[0];
+      logger.info(
+        `Deleted ${deleted} imported rows from ${tableName}, ${errors.length} skipped`
+      );
+      return deleted;
+    } catch (error) {
+      logger.error('Deleting imported rows failed:', error);
       throw error;
     }
   }
 
+  /**
+   * Start a transaction on a pooled connection for the caller to pass
+   * to the write methods
+   */
+  async beginTransaction(): Promise<sql.Transaction> {
+    const transaction = this.db.getPool().transaction();
+    await transaction.begin();
+    return transaction;
+  }
+
+  /**
+   * Roll back a transaction, tolerating one SQL Server already aborted
+   */
+  async rollbackTransaction(transaction: sql.Transaction): Promise<void> {
+    try {
+      await transaction.rollback();
+      logger.info('Transaction rolled back');
+    } catch (error) {
+      logger.warn('Transaction rollback failed:', error);
+    }
+  }
+
+  /**
+   * Create an empty shadow table with the given columns of the target,
+   * replacing any shadow left behind by an earlier attempt
+   */
+  async createShadowTable(
+    tableName: string,
+    shadowTable: string,
+    columns: string[]
+  ): Promise<void> {
+    const pool = this.db.getPool();
+
+    try {
+      await this.dropTable(shadowTable);
+      await pool
+        .request()
+        .query(
+          `SELECT TOP 0 ${columns.map(quoteIdentifier).join(', ')} INTO ${shadowTable} FROM ${tableName}`
+        );
+      logger.info(`Shadow table ${shadowTable} created for ${tableName}`);
+    } catch (error) {
+      logger.error('Error creating shadow table:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the contents of a table with the rows of its shadow table
+   * Delete and insert run in one transaction, so readers see either the
+   * old rows or the new ones; the shadow table is dropped afterwards
+   * Identity columns are never loaded, so the target numbers the new rows
+   * itself, and rows another table references through a foreign key make
+   * the delete fail and the transaction roll back
+   */
+  async replaceFromShadowTable(
+    tableName: string,
+    shadowTable: string,
+    columns: string[]
+  ): Promise<number> {
+    const pool = this.db.getPool();
+    const transaction = pool.transaction();
+    const columnList = columns.map(quoteIdentifier).join(', ');
+    let loaded: number;
+
+    try {
+      await transaction.begin();
+
+      const deleted = await transaction
+        .request()
+        .query(`DELETE FROM ${tableName}`);
+      const inserted = await transaction
+        .request()
+        .query(
+          `INSERT INTO ${tableName} (${columnList}) SELECT ${columnList} FROM ${shadowTable}`
+        );
+
+      await transaction.commit();
+
+      logger.info(
+        `Replaced contents of ${tableName}: ${deleted.rowsAffected[0]} removed, ${inserted.rowsAffected[0]} loaded`
+      );
+      loaded = inserted.rowsAffected[0];
+    } catch (error) {
+      await transaction.rollback();
+      logger.error('Table replace transaction failed:', error);
+      throw error;
+    }
+
+    await this.dropTable(shadowTable).catch((error) =>
+      logger.warn(`Failed to drop shadow table ${shadowTable}:`, error)
+    );
+    return loaded;
+  }
+
+  /**
+   * Drop a table if it exists
+   */
+  async dropTable(tableName: string): Promise<void> {
+    const pool = this.db.getPool();
+
+    await pool
+      .request()
+      .input('tableName', sql.NVarChar, tableName)
+      .query(
+        `IF OBJECT_ID(@tableName, 'U') IS NOT NULL DROP TABLE ${tableName}`
+      );
+  }
+
   /**
    * Check if table exists
    */
@@ -197,43 +528,148 @@ class DataRepository {
   }
 
   /**
-   * Infer SQL Server data type from JavaScript value
+   * Get full column metadata: type, length, precision, nullability,
+   * defaults, identity and computed flags
    */
-  private inferSqlType(
-    value: string | number | boolean | Date | null | undefined
-  ): sql.ISqlType {
-    if (value === null || value === undefined) {
-      return sql.NVarChar(sql.MAX);
-    }
+  async getTableSchema(tableName: string): Promise<ColumnMetadata[]> {
+    const pool = this.db.getPool();
 
-    if (typeof value === 'number') {
-      return Number.isInteger(value) ? sql.Int() : sql.Decimal(18, 2);
-    }
+    try {
+      const result = await pool
+        .request()
+        .input('tableName', sql.NVarChar, tableName).query<ColumnSchemaResult>(`
+          SELECT
+            c.COLUMN_NAME,
+            c.DATA_TYPE,
+            c.CHARACTER_MAXIMUM_LENGTH,
+            c.NUMERIC_PRECISION,
+            c.NUMERIC_SCALE,
+            c.IS_NULLABLE,
+            c.COLUMN_DEFAULT,
+            COLUMNPROPERTY(OBJECT_ID(QUOTENAME(c.TABLE_SCHEMA) + '.' + QUOTENAME(c.TABLE_NAME)), c.COLUMN_NAME, 'IsIdentity') AS IS_IDENTITY,
+            COLUMNPROPERTY(OBJECT_ID(QUOTENAME(c.TABLE_SCHEMA) + '.' + QUOTENAME(c.TABLE_NAME)), c.COLUMN_NAME, 'IsComputed') AS IS_COMPUTED
+          FROM INFORMATION_SCHEMA.COLUMNS c
+          WHERE c.TABLE_NAME = @tableName
+          ORDER BY c.ORDINAL_POSITION
+        `);
 
-    if (typeof value === 'boolean') {
-      return sql.Bit();
+      return result.recordset.map((row) => ({
+        name: row.COLUMN_NAME,
+        dataType: row.DATA_TYPE,
+        maxLength: row.CHARACTER_MAXIMUM_LENGTH,
+        precision: row.NUMERIC_PRECISION,
+        scale: row.NUMERIC_SCALE,
+        isNullable: row.IS_NULLABLE === 'YES',
+        hasDefault: row.COLUMN_DEFAULT !== null,
+        isIdentity: row.IS_IDENTITY === 1,
+        isComputed: row.IS_COMPUTED === 1,
+      }));
+    } catch (error) {
+      logger.error('Error getting table schema:', error);
+      throw error;
     }
+  }
 
-    if (value instanceof Date) {
-      return sql.DateTime();
+  /**
+   * Select list that creates a staging table through SELECT TOP 0 INTO
+   * SELECT INTO copies the IDENTITY property of a column it selects as
+   * is, and the bulk load would then replace its values, so identity
+   * columns are cast
+   */
+  private stagingColumns(targets: ColumnMetadata[]): string {
+    return targets
+      .map((target) =>
+        target.isIdentity
+          ? `CAST(${quoteIdentifier(target.name)} AS ${formatSqlType(target)}) AS ${quoteIdentifier(target.name)}`
+          : quoteIdentifier(target.name)
+      )
+      .join(', ');
+  }
+
+  /**
+   * Build a TVP typed from the target table's metadata
+   * Rows with a cell that cannot be coerced are left out and returned
+   * as batch-relative errors
+   */
+  private buildTable(
+    name: string,
+    tableName: string,
+    records: ImportRecord[],
+    tableColumns: ColumnMetadata[],
+    columnMapping?: Record<string, string>
+  ): {
+    table: sql.Table;
+    targets: ColumnMetadata[];
+    errors: Array<{ row: number; error: string }>;
+  } {
+    const table = new sql.Table(name);
+    table.create = false; // Table must exist
+
+    // Rows may omit trailing empty cells, so collect keys from every record
+    const columns = [...new Set(records.flatMap(Object.keys))];
+    const targets = columns.map((col) =>
+      this.resolveColumn(tableColumns, columnMapping?.[col] || col, tableName)
+    );
+
+    // Define table columns with the destination types
+    for (const target of targets) {
+      table.columns.add(target.name, toSqlType(target), {
+        nullable: target.isNullable,
+      });
     }
 
-    // Check if string represents a date
-    if (typeof value === 'string') {
-      const datePattern = /^\d{4}-\d{2}-\d{2}/;
-      const dateTest = new Date(value);
-      if (!Number.isNaN(dateTest.getTime()) && datePattern.exec(value)) {
-        return sql.DateTime();
+    // Add rows to table
+    const errors: Array<{ row: number; error: string }> = [];
+    records.forEach((record, index) => {
+      try {
+        const row = columns.map((col, i) =>
+          this.coerceCell(record[col], targets[i])
+        );
+        table.rows.add(...row);
+      } catch (error) {
+        if (!(error instanceof CoercionError)) {
+          throw error;
+        }
+        errors.push({ row: index + 1, error: error.message });
+        logger.warn(`Skipping row ${index + 1}: ${error.message}`);
       }
+    });
 
-      // String length check for appropriate type
-      if (value.length > 4000) {
-        return sql.NVarChar(sql.MAX);
-      }
-      return sql.NVarChar(value.length > 255 ? 4000 : 255);
+    return { table, targets, errors };
+  }
+
+  /**
+   * Find the table column a record key is loaded into, ignoring case
+   */
+  private resolveColumn(
+    tableColumns: ColumnMetadata[],
+    columnName: string,
+    tableName: string
+  ): ColumnMetadata {
+    const column = tableColumns.find(
+      (c) => c.name.toLowerCase() === columnName.toLowerCase()
+    );
+    if (!column) {
+      throw new Error(`Column ${columnName} does not exist in ${tableName}`);
     }
+    return column;
+  }
 
-    return sql.NVarChar(sql.MAX);
+  /**
+   * Coerce one cell, naming the column in the error
+   */
+  private coerceCell(
+    value: ImportRecord[string] | undefined,
+    column: ColumnMetadata
+  ): string | number | Date | null {
+    try {
+      return coerceValue(value, column);
+    } catch (error) {
+      if (error instanceof CoercionError) {
+        throw new CoercionError(`Column ${column.name}: ${error.message}`);
+      }
+      throw error;
+    }
   }
 }
 
@@ -0,0 +1,119 @@
+import { appConfig } from '../config/app.config';
+import { redisConnection } from '../config/queue.config';
+import { FailedRecord } from '../types';
+import logger from '../utils/logger';
+
+// Sheet key used for CSV files and single-sheet imports without a sheetName
+const DEFAULT_SHEET = '';
+
+/**
+ * Stores every failed row of a job in Redis, with the headers of the
+ * sheet it came from, so an error report can be rebuilt after the job ends
+ * Keys expire with the job retention period
+ */
+class FailedRecordRepository {
+  private readonly ttlSeconds = appConfig.job.retentionDays * 24 * 60 * 60;
+  private readonly readChunkSize = 1000;
+
+  /**
+   * Append failed rows of one sheet
+   */
+  async append(
+    jobId: string,
+    headers: string[],
+    records: FailedRecord[]
+  ): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    const sheet = records[0].sheetName ?? DEFAULT_SHEET;
+
+    try {
+      await redisConnection
+        .multi()
+        .hsetnx(this.headersKey(jobId), sheet, JSON.stringify(headers))
+        .rpush(
+          this.recordsKey(jobId),
+          ...records.map((record) => JSON.stringify(record))
+        )
+        .expire(this.headersKey(jobId), this.ttlSeconds)
+        .expire(this.recordsKey(jobId), this.ttlSeconds)
+        .exec();
+    } catch (error) {
+      logger.error(`Failed to store failed rows for job ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Headers of every sheet that has failed rows, keyed by sheet name
+   * ('' for CSV files and imports without a sheetName)
+   */
+  async getHeaders(jobId: string): Promise<Map<string, string[]>> {
+    const stored = await redisConnection.hgetall(this.headersKey(jobId));
+    return new Map(
+      Object.entries(stored).map(([sheet, headers]) => [
+        sheet,
+        JSON.parse(headers) as string[],
+      ])
+    );
+  }
+
+  /**
+   * Number of failed rows stored for a job
+   */
+  async count(jobId: string): Promise<number> {
+    return redisConnection.llen(this.recordsKey(jobId));
+  }
+
+  /**
+   * Read failed rows in insertion order without loading them all at once
+   */
+  async *stream(jobId: string): AsyncGenerator<FailedRecord, void, unknown> {
+    const key = this.recordsKey(jobId);
+
+    for (let start = 0; ; start += this.readChunkSize) {
+      const chunk = await redisConnection.lrange(
+        key,
+        start,
+        start + this.readChunkSize - 1
+      );
+      for (const entry of chunk) {
+        yield JSON.parse(entry) as FailedRecord;
+      }
+      if (chunk.length < this.readChunkSize) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Keep only the first failed rows of a job, dropping rows stored by a
+   * batch that was not checkpointed before the attempt stopped
+   */
+  async truncate(jobId: string, count: number): Promise<void> {
+    if (count === 0) {
+      await this.clear(jobId);
+      return;
+    }
+    await redisConnection.ltrim(this.recordsKey(jobId), 0, count - 1);
+  }
+
+  /**
+   * Remove all failed rows of a job
+   */
+  async clear(jobId: string): Promise<void> {
+    await redisConnection.del(this.recordsKey(jobId), this.headersKey(jobId));
+  }
+
+  private recordsKey(jobId: string): string {
+    return `import:failed:${jobId}`;
+  }
+
+  private headersKey(jobId: string): string {
+    return `import:failed:${jobId}:headers`;
+  }
+}
+
+export default new FailedRecordRepository();
@@ -0,0 +1,103 @@
+import { appConfig } from '../config/app.config';
+import { redisConnection } from '../config/queue.config';
+
+/**
+ * Requests the API makes of a running job through Redis, which the
+ * worker checks between batches
+ * Keys outlive the job for the retention period so the outcome can still
+ * be reported
+ */
+class JobControlRepository {
+  private readonly ttlSeconds = appConfig.job.retentionDays * 24 * 60 * 60;
+
+  /**
+   * Ask a job to stop at the next batch boundary, and with rollback to
+   * delete the rows it inserted
+   */
+  async requestCancel(jobId: string, rollback = false): Promise<void> {
+    const requestedAt = new Date().toISOString();
+    const request = redisConnection
+      .multi()
+      .set(this.cancelKey(jobId), requestedAt, 'EX', this.ttlSeconds);
+    if (rollback) {
+      request.set(this.rollbackKey(jobId), requestedAt, 'EX', this.ttlSeconds);
+    }
+    await request.exec();
+  }
+
+  /**
+   * Check whether a job has been asked to stop
+   */
+  async isCancelRequested(jobId: string): Promise<boolean> {
+    return (await redisConnection.exists(this.cancelKey(jobId))) === 1;
+  }
+
+  /**
+   * Check whether a cancelled job should delete the rows it inserted
+   */
+  async isRollbackRequested(jobId: string): Promise<boolean> {
+    return (await redisConnection.exists(this.rollbackKey(jobId))) === 1;
+  }
+
+  /**
+   * Ask a job to park at the next batch boundary until it is resumed
+   */
+  async requestPause(jobId: string): Promise<void> {
+    await redisConnection.set(
+      this.pauseKey(jobId),
+      new Date().toISOString(),
+      'EX',
+      this.ttlSeconds
+    );
+  }
+
+  /**
+   * Withdraw a pause request; returns false if the job was not paused
+   */
+  async clearPause(jobId: string): Promise<boolean> {
+    return (await redisConnection.del(this.pauseKey(jobId))) === 1;
+  }
+
+  /**
+   * Check whether a job has been asked to park
+   */
+  async isPauseRequested(jobId: string): Promise<boolean> {
+    return (await redisConnection.exists(this.pauseKey(jobId))) === 1;
+  }
+
+  /**
+   * Mark the whole queue as paused so running jobs park too
+   */
+  async setQueuePaused(paused: boolean): Promise<void> {
+    if (paused) {
+      await redisConnection.set(this.queuePauseKey(), new Date().toISOString());
+    } else {
+      await redisConnection.del(this.queuePauseKey());
+    }
+  }
+
+  /**
+   * Check whether the whole queue is paused
+   */
+  async isQueuePaused(): Promise<boolean> {
+    return (await redisConnection.exists(this.queuePauseKey())) === 1;
+  }
+
+  private cancelKey(jobId: string): string {
+    return `import:cancel:${jobId}`;
+  }
+
+  private rollbackKey(jobId: string): string {
+    return `import:cancel:${jobId}:rollback`;
+  }
+
+  private pauseKey(jobId: string): string {
+    return `import:pause:${jobId}`;
+  }
+
+  private queuePauseKey(): string {
+    return 'import:queue:paused';
+  }
+}
+
+export default new JobControlRepository();
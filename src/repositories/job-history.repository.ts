@@ -0,0 +1,336 @@
+import sql from 'mssql';
+import DatabaseConnection from '../config/database.config';
+import {
+  JobData,
+  JobFilterOptions,
+  JobHistoryEntry,
+  JobHistoryPage,
+  JobHistoryUpdate,
+  JobStatistics,
+  JobStatisticsFilter,
+  JobStatus,
+} from '../types';
+import logger from '../utils/logger';
+
+// SQL Server query result types
+interface AuditLogRow {
+  JobId: string;
+  Status: JobStatus;
+  TableName: string;
+  FileName: string | null;
+  Mode: JobHistoryEntry['mode'] | null;
+  UserId: string | null;
+  ParentJobId: string | null;
+  CorrelationId: string | null;
+  TotalRecords: number | null;
+  ProcessedCount: number | null;
+  SuccessCount: number | null;
+  FailedCount: number | null;
+  InsertedCount: number | null;
+  UpdatedCount: number | null;
+  UnchangedCount: number | null;
+  ErrorMessage: string | null;
+  CreatedAt: Date;
+  StartTime: Date | null;
+  EndTime: Date | null;
+  Duration: number | null;
+  TotalCount: number;
+}
+
+// History fields and the ImportAuditLog columns they are stored in
+const UPDATE_COLUMNS: Record<
+  keyof JobHistoryUpdate,
+  { column: string; type: sql.ISqlType | (() => sql.ISqlType) }
+> = {
+  status: { column: 'Status', type: sql.NVarChar(50) },
+  totalRecords: { column: 'TotalRecords', type: sql.Int },
+  processedCount: { column: 'ProcessedCount', type: sql.Int },
+  successCount: { column: 'SuccessCount', type: sql.Int },
+  failedCount: { column: 'FailedCount', type: sql.Int },
+  insertedCount: { column: 'InsertedCount', type: sql.Int },
+  updatedCount: { column: 'UpdatedCount', type: sql.Int },
+  unchangedCount: { column: 'UnchangedCount', type: sql.Int },
+  error: { column: 'ErrorMessage', type: sql.NVarChar(sql.MAX) },
+  startedAt: { column: 'StartTime', type: sql.DateTime2 },
+  completedAt: { column: 'EndTime', type: sql.DateTime2 },
+  duration: { column: 'Duration', type: sql.Int },
+};
+
+interface StatisticsRow {
+  TotalJobs: number;
+  PendingJobs: number | null;
+  ActiveJobs: number | null;
+  CompletedJobs: number | null;
+  FailedJobs: number | null;
+  AverageDuration: number | null;
+  RecordsProcessed: number | string | null;
+  CompletedRecords: number | string | null;
+  CompletedSucceeded: number | string | null;
+}
+
+const SORT_COLUMNS: Record<NonNullable<JobFilterOptions['sortBy']>, string> = {
+  createdAt: 'CreatedAt',
+  completedAt: 'EndTime',
+  status: 'Status',
+};
+
+/**
+ * Keeps every job in the ImportAuditLog table, so job history outlives
+ * the jobs BullMQ retains in Redis
+ */
+class JobHistoryRepository {
+  private readonly db: DatabaseConnection;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance();
+  }
+
+  /**
+   * Record a newly queued job
+   */
+  async create(jobData: JobData): Promise<void> {
+    try {
+      await this.db
+        .getPool()
+        .request()
+        .input('jobId', sql.NVarChar(50), jobData.jobId)
+        .input('tableName', sql.NVarChar(255), jobData.tableName)
+        .input('fileName', sql.NVarChar(500), jobData.fileName)
+        .input('totalRecords', sql.Int, jobData.totalRecords)
+        .input('status', sql.NVarChar(50), JobStatus.PENDING)
+        .input('correlationId', sql.NVarChar(50), jobData.correlationId)
+        .input('userId', sql.NVarChar(255), jobData.userId ?? null)
+        .input('parentJobId', sql.NVarChar(50), jobData.parentJobId ?? null)
+        .input('mode', sql.NVarChar(20), jobData.mode ?? null)
+        .input('createdAt', sql.DateTime2, jobData.createdAt ?? new Date())
+        .query(`
+          INSERT INTO ImportAuditLog
+            (JobId, TableName, FileName, TotalRecords, ProcessedCount,
+             SuccessCount, FailedCount, Status, CorrelationId, UserId,
+             ParentJobId, Mode, CreatedAt, UpdatedAt)
+          VALUES
+            (@jobId, @tableName, @fileName, @totalRecords, 0,
+             0, 0, @status, @correlationId, @userId,
+             @parentJobId, @mode, @createdAt, @createdAt)
+        `);
+    } catch (error) {
+      logger.error(`Failed to record job ${jobData.jobId} in history:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the given fields of a job's history entry
+   */
+  async update(jobId: string, changes: JobHistoryUpdate): Promise<void> {
+    const fields = (
+      Object.keys(changes) as Array<keyof JobHistoryUpdate>
+    ).filter((field) => changes[field] !== undefined);
+    if (fields.length === 0) {
+      return;
+    }
+
+    try {
+      const request = this.db
+        .getPool()
+        .request()
+        .input('jobId', sql.NVarChar(50), jobId)
+        .input('updatedAt', sql.DateTime2, new Date());
+
+      const assignments = fields.map((field) => {
+        const { column, type } = UPDATE_COLUMNS[field];
+        request.input(field, type, changes[field]);
+        return `${column} = @${field}`;
+      });
+
+      await request.query(`
+        UPDATE ImportAuditLog
+        SET ${assignments.join(', ')}, UpdatedAt = @updatedAt
+        WHERE JobId = @jobId
+      `);
+    } catch (error) {
+      logger.error(`Failed to update history of job ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find jobs matching a filter, one page at a time
+   */
+  async find(filter: JobFilterOptions): Promise<JobHistoryPage> {
+    const {
+      limit = 20,
+      offset = 0,
+      sortBy = 'createdAt',
+      sortOrder = 'desc',
+    } = filter;
+
+    try {
+      const request = this.db.getPool().request();
+      const where = this.applyFilter(request, filter);
+      request.input('offset', sql.Int, offset);
+      request.input('limit', sql.Int, limit);
+
+      // LogId breaks ties so pages do not overlap
+      const direction = sortOrder === 'asc' ? 'ASC' : 'DESC';
+      const result = await request.query<AuditLogRow>(`
+        SELECT JobId, Status, TableName, FileName, Mode, UserId, ParentJobId,
+               CorrelationId, TotalRecords, ProcessedCount, SuccessCount,
+               FailedCount, InsertedCount, UpdatedCount, UnchangedCount,
+               ErrorMessage, CreatedAt, StartTime, EndTime, Duration,
+               COUNT(*) OVER() AS TotalCount
+        FROM ImportAuditLog
+        ${where}
+        ORDER BY ${SORT_COLUMNS[sortBy]} ${direction}, LogId ${direction}
+        OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+      `);
+
+      const rows = result.recordset;
+      return {
+        jobs: rows.map((row) => this.toEntry(row)),
+        total:
+          rows[0]?.TotalCount ?? (offset > 0 ? await this.count(filter) : 0),
+        limit,
+        offset,
+      };
+    } catch (error) {
+      logger.error('Failed to query job history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Aggregate the jobs matching a filter
+   * Pending covers queued, delayed and paused jobs; average processing
+   * time (ms) and the success rate (% of processed rows imported) are
+   * taken over completed jobs only
+   */
+  async getStatistics(filter: JobStatisticsFilter): Promise<JobStatistics> {
+    try {
+      const request = this.db.getPool().request();
+      const where = this.applyFilter(request, filter);
+      request.input('pending', sql.NVarChar(50), JobStatus.PENDING);
+      request.input('delayed', sql.NVarChar(50), JobStatus.DELAYED);
+      request.input('paused', sql.NVarChar(50), JobStatus.PAUSED);
+      request.input('processing', sql.NVarChar(50), JobStatus.PROCESSING);
+      request.input('completed', sql.NVarChar(50), JobStatus.COMPLETED);
+      request.input('failed', sql.NVarChar(50), JobStatus.FAILED);
+
+      const result = await request.query<StatisticsRow>(`
+        SELECT
+          COUNT(*) AS TotalJobs,
+          SUM(CASE WHEN Status IN (@pending, @delayed, @paused) THEN 1 ELSE 0 END) AS PendingJobs,
+          SUM(CASE WHEN Status = @processing THEN 1 ELSE 0 END) AS ActiveJobs,
+          SUM(CASE WHEN Status = @completed THEN 1 ELSE 0 END) AS CompletedJobs,
+          SUM(CASE WHEN Status = @failed THEN 1 ELSE 0 END) AS FailedJobs,
+          AVG(CASE WHEN Status = @completed THEN CAST(Duration AS FLOAT) END) AS AverageDuration,
+          SUM(CAST(ISNULL(ProcessedCount, 0) AS BIGINT)) AS RecordsProcessed,
+          SUM(CASE WHEN Status = @completed THEN CAST(SuccessCount AS BIGINT) + FailedCount END) AS CompletedRecords,
+          SUM(CASE WHEN Status = @completed THEN CAST(SuccessCount AS BIGINT) END) AS CompletedSucceeded
+        FROM ImportAuditLog
+        ${where}
+      `);
+
+      // BIGINT sums arrive as strings
+      const row = result.recordset[0];
+      const completedRecords = Number(row.CompletedRecords ?? 0);
+
+      return {
+        totalJobs: row.TotalJobs,
+        pendingJobs: row.PendingJobs ?? 0,
+        activeJobs: row.ActiveJobs ?? 0,
+        completedJobs: row.CompletedJobs ?? 0,
+        failedJobs: row.FailedJobs ?? 0,
+        averageProcessingTime: Math.round(row.AverageDuration ?? 0),
+        totalRecordsProcessed: Number(row.RecordsProcessed ?? 0),
+        successRate:
+          completedRecords > 0
+            ? Math.round(
+                (Number(row.CompletedSucceeded ?? 0) / completedRecords) * 10000
+              ) / 100
+            : 0,
+      };
+    } catch (error) {
+      logger.error('Failed to compute job statistics:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count the jobs matching a filter
+   * COUNT(*) OVER() has no row to ride on when a page is past the end
+   */
+  private async count(filter: JobFilterOptions): Promise<number> {
+    const request = this.db.getPool().request();
+    const where = this.applyFilter(request, filter);
+    const result = await request.query<{ count: number }>(
+      `SELECT COUNT(*) AS count FROM ImportAuditLog ${where}`
+    );
+    return result.recordset[0].count;
+  }
+
+  /**
+   * Add the filter's parameters to a request and return its WHERE clause
+   */
+  private applyFilter(request: sql.Request, filter: JobFilterOptions): string {
+    const { status, startDate, endDate, tableName, userId } = filter;
+    const conditions: string[] = [];
+
+    const statuses = status === undefined ? [] : [status].flat();
+    if (statuses.length > 0) {
+      const names = statuses.map((value, index) => {
+        request.input(`status${index}`, sql.NVarChar(50), value);
+        return `@status${index}`;
+      });
+      conditions.push(`Status IN (${names.join(', ')})`);
+    }
+    if (startDate) {
+      request.input('startDate', sql.DateTime2, startDate);
+      conditions.push('CreatedAt >= @startDate');
+    }
+    if (endDate) {
+      request.input('endDate', sql.DateTime2, endDate);
+      conditions.push('CreatedAt <= @endDate');
+    }
+    if (tableName) {
+      request.input('tableName', sql.NVarChar(255), tableName);
+      // Workbook jobs record their tables as a comma-separated list
+      conditions.push(
+        "CHARINDEX(',' + @tableName + ',', ',' + TableName + ',') > 0"
+      );
+    }
+    if (userId) {
+      request.input('userId', sql.NVarChar(255), userId);
+      conditions.push('UserId = @userId');
+    }
+
+    return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  }
+
+  private toEntry(row: AuditLogRow): JobHistoryEntry {
+    return {
+      jobId: row.JobId,
+      status: row.Status,
+      tableName: row.TableName,
+      fileName: row.FileName ?? undefined,
+      mode: row.Mode ?? undefined,
+      userId: row.UserId ?? undefined,
+      parentJobId: row.ParentJobId ?? undefined,
+      correlationId: row.CorrelationId ?? undefined,
+      totalRecords: row.TotalRecords ?? 0,
+      processedCount: row.ProcessedCount ?? 0,
+      successCount: row.SuccessCount ?? 0,
+      failedCount: row.FailedCount ?? 0,
+      insertedCount: row.InsertedCount ?? 0,
+      updatedCount: row.UpdatedCount ?? 0,
+      unchangedCount: row.UnchangedCount ?? 0,
+      error: row.ErrorMessage ?? undefined,
+      createdAt: row.CreatedAt,
+      startedAt: row.StartTime ?? undefined,
+      completedAt: row.EndTime ?? undefined,
+      duration: row.Duration ?? undefined,
+    };
+  }
+}
+
+export default new JobHistoryRepository();
@@ -0,0 +1,45 @@
+import { appConfig } from '../config/app.config';
+import { redisConnection } from '../config/queue.config';
+import { JobLog } from '../types';
+
+/**
+ * Stores the most recent log entries of every job in Redis, so a job can
+ * be debugged without access to the log files
+ * Keys expire with the job retention period
+ */
+class JobLogRepository {
+  private readonly ttlSeconds = appConfig.job.retentionDays * 24 * 60 * 60;
+
+  /**
+   * Append entries, dropping the oldest beyond the per-job limit
+   */
+  async append(jobId: string, entries: JobLog[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await redisConnection
+      .multi()
+      .rpush(
+        this.logsKey(jobId),
+        ...entries.map((entry) => JSON.stringify(entry))
+      )
+      .ltrim(this.logsKey(jobId), -appConfig.job.maxLogEntries, -1)
+      .expire(this.logsKey(jobId), this.ttlSeconds)
+      .exec();
+  }
+
+  /**
+   * Every stored entry of a job, oldest first
+   */
+  async list(jobId: string): Promise<JobLog[]> {
+    const stored = await redisConnection.lrange(this.logsKey(jobId), 0, -1);
+    return stored.map((entry) => JSON.parse(entry) as JobLog);
+  }
+
+  private logsKey(jobId: string): string {
+    return `import:logs:${jobId}`;
+  }
+}
+
+export default new JobLogRepository();
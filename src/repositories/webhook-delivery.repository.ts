@@ -0,0 +1,112 @@
+import { appConfig } from '../config/app.config';
+import { redisConnection } from '../config/queue.config';
+import { WebhookAttempt, WebhookDeadLetter, WebhookDelivery } from '../types';
+
+// Most recent undeliverable webhooks kept in the dead-letter log
+const DEAD_LETTER_LIMIT = 1000;
+
+/**
+ * Stores every webhook delivery of a job with its attempts, and a
+ * dead-letter log of deliveries that ran out of attempts
+ * Keys expire with the job retention period
+ */
+class WebhookDeliveryRepository {
+  private readonly ttlSeconds = appConfig.job.retentionDays * 24 * 60 * 60;
+
+  /**
+   * Record a new delivery; returns false if it was already recorded
+   */
+  async create(delivery: WebhookDelivery): Promise<boolean> {
+    const key = this.deliveriesKey(delivery.jobId);
+    const [[, created]] = (await redisConnection
+      .multi()
+      .hsetnx(key, delivery.deliveryId, JSON.stringify(delivery))
+      .expire(key, this.ttlSeconds)
+      .exec()) as [[Error | null, number]];
+    return created === 1;
+  }
+
+  /**
+   * Get one delivery of a job
+   */
+  async get(
+    jobId: string,
+    deliveryId: string
+  ): Promise<WebhookDelivery | null> {
+    const stored = await redisConnection.hget(
+      this.deliveriesKey(jobId),
+      deliveryId
+    );
+    return stored ? (JSON.parse(stored) as WebhookDelivery) : null;
+  }
+
+  /**
+   * Every delivery of a job, oldest first
+   */
+  async list(jobId: string): Promise<WebhookDelivery[]> {
+    const stored = await redisConnection.hvals(this.deliveriesKey(jobId));
+    return stored
+      .map((entry) => JSON.parse(entry) as WebhookDelivery)
+      .sort(
+        (a, b) =>
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
+  }
+
+  /**
+   * Add an attempt to a delivery and set its status
+   * Only the webhook worker running the delivery writes to it
+   */
+  async recordAttempt(
+    jobId: string,
+    deliveryId: string,
+    attempt: WebhookAttempt,
+    status: WebhookDelivery['status']
+  ): Promise<void> {
+    const delivery = await this.get(jobId, deliveryId);
+    if (!delivery) {
+      return;
+    }
+
+    delivery.attempts.push(attempt);
+    delivery.status = status;
+    await redisConnection.hset(
+      this.deliveriesKey(jobId),
+      deliveryId,
+      JSON.stringify(delivery)
+    );
+  }
+
+  /**
+   * Add an undeliverable webhook to the dead-letter log
+   */
+  async addDeadLetter(entry: WebhookDeadLetter): Promise<void> {
+    await redisConnection
+      .multi()
+      .lpush(this.deadLetterKey(), JSON.stringify(entry))
+      .ltrim(this.deadLetterKey(), 0, DEAD_LETTER_LIMIT - 1)
+      .exec();
+  }
+
+  /**
+   * Most recent undeliverable webhooks, newest first
+   */
+  async listDeadLetters(limit: number): Promise<WebhookDeadLetter[]> {
+    const stored = await redisConnection.lrange(
+      this.deadLetterKey(),
+      0,
+      limit - 1
+    );
+    return stored.map((entry) => JSON.parse(entry) as WebhookDeadLetter);
+  }
+
+  private deliveriesKey(jobId: string): string {
+    return `import:webhook:${jobId}`;
+  }
+
+  private deadLetterKey(): string {
+    return 'import:webhook:dead-letter';
+  }
+}
+
+export default new WebhookDeliveryRepository();
@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import adminController from '../controllers/admin.controller';
+import { asyncHandler } from '../middleware/error.middleware';
+import { validateQuery } from '../middleware/validation.middleware';
+import { deadLetterQuerySchema } from '../validators/job.validator';
+
+const router = Router();
+
+/**
+ * @route   GET /api/admin/queue
+ * @desc    Get whether the import queue is paused
+ * @access  Public
+ */
+router.get(
+  '/queue',
+  asyncHandler(adminController.getQueueStatus.bind(adminController))
+);
+
+/**
+ * @route   POST /api/admin/queue/pause
+ * @desc    Stop starting new jobs and park running jobs at their next
+ *          batch boundary, e.g. for SQL Server maintenance
+ * @access  Public
+ */
+router.post(
+  '/queue/pause',
+  asyncHandler(adminController.pauseQueue.bind(adminController))
+);
+
+/**
+ * @route   POST /api/admin/queue/resume
+ * @desc    Resume the queue; parked jobs continue from their checkpoints
+ * @access  Public
+ */
+router.post(
+  '/queue/resume',
+  asyncHandler(adminController.resumeQueue.bind(adminController))
+);
+
+/**
+ * @route   GET /api/admin/webhooks/dead-letter
+ * @desc    List webhook deliveries that ran out of attempts, newest first
+ * @access  Public
+ * @query   limit - Entries to return (1-1000, default 100)
+ */
+router.get(
+  '/webhooks/dead-letter',
+  validateQuery(deadLetterQuerySchema),
+  asyncHandler(adminController.listDeadLetters.bind(adminController))
+);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Request, Response, Router } from 'express';
 import DatabaseConnection from '../config/database.config';
 import { redisConnection } from '../config/queue.config';
+import jobService from '../services/job.service';
 import { getCorrelationId } from '../utils/correlation-id';
 
 const router = Router();
@@ -51,6 +52,37 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @route   GET /health/queue
+ * @desc    Queue backlog and worker check; 503 when a threshold is breached
+ * @access  Public
+ */
+router.get('/queue', async (req: Request, res: Response) => {
+  const correlationId = getCorrelationId(req);
+
+  try {
+    const health = await jobService.getQueueHealth();
+
+    res.status(health.isHealthy ? 200 : 503).json({
+      success: health.isHealthy,
+      data: health,
+      correlationId,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    res.status(503).json({
+      success: false,
+      data: {
+        isHealthy: false,
+        timestamp: new Date(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      correlationId,
+      timestamp: new Date(),
+    });
+  }
+});
+
 /**
  * @route   GET /health/ready
  * @desc    Readiness check for Kubernetes
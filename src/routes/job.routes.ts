@@ -1,16 +1,48 @@
 import { Router } from 'express';
 import jobController from '../controllers/job.controller';
 import { asyncHandler } from '../middleware/error.middleware';
+import { upload } from '../middleware/upload.middleware';
+import { validate, validateQuery } from '../middleware/validation.middleware';
+import {
+  cancelJobQuerySchema,
+  jobLogQuerySchema,
+  jobQuerySchema,
+  jobStatsQuerySchema,
+} from '../validators/job.validator';
+import { retryFailedSchema } from '../validators/upload.validator';
 
 const router = Router();
 
 /**
  * @route   GET /api/jobs
- * @desc    Get all jobs with optional status filter
+ * @desc    Get jobs from the job history
  * @access  Public
- * @query   status - Filter by status (pending, active, completed, failed)
+ * @query   status - Comma-separated statuses (pending, processing, completed,
+ *          failed, cancelled, paused, delayed; active = processing)
+ * @query   startDate, endDate - ISO dates bounding when jobs were created
+ * @query   tableName, userId - Exact match filters
+ * @query   limit (1-100, default 20), offset (default 0)
+ * @query   sortBy (createdAt, completedAt, status), sortOrder (asc, desc)
  */
-router.get('/', asyncHandler(jobController.getAllJobs.bind(jobController)));
+router.get(
+  '/',
+  validateQuery(jobQuerySchema),
+  asyncHandler(jobController.getAllJobs.bind(jobController))
+);
+
+/**
+ * @route   GET /api/jobs/stats
+ * @desc    Get job counts, average processing time, records processed and
+ *          success rate from the job history
+ * @access  Public
+ * @query   startDate, endDate - ISO dates bounding when jobs were created
+ * @query   tableName, userId - Exact match filters
+ */
+router.get(
+  '/stats',
+  validateQuery(jobStatsQuerySchema),
+  asyncHandler(jobController.getStatistics.bind(jobController))
+);
 
 /**
  * @route   GET /api/jobs/:jobId
@@ -22,13 +54,102 @@ router.get(
   asyncHandler(jobController.getJobStatus.bind(jobController))
 );
 
+/**
+ * @route   GET /api/jobs/:jobId/events
+ * @desc    Stream job progress, state changes and result (Server-Sent Events)
+ * @access  Public
+ * @header  Last-Event-ID - Replay events after this ID on reconnect
+ */
+router.get(
+  '/:jobId/events',
+  asyncHandler(jobController.streamEvents.bind(jobController))
+);
+
+/**
+ * @route   GET /api/jobs/:jobId/errors.xlsx
+ * @desc    Download failed rows with their errors as a workbook
+ * @access  Public
+ */
+router.get(
+  '/:jobId/errors.xlsx',
+  asyncHandler(jobController.downloadErrorReport.bind(jobController))
+);
+
+/**
+ * @route   POST /api/jobs/:jobId/retry-failed
+ * @desc    Import the failed rows of a completed job again as a new job,
+ *          from a corrected file or the stored rows with edits
+ * @access  Public
+ */
+router.post(
+  '/:jobId/retry-failed',
+  upload.single('file'),
+  validate(retryFailedSchema),
+  asyncHandler(jobController.retryFailed.bind(jobController))
+);
+
+/**
+ * @route   GET /api/jobs/:jobId/logs
+ * @desc    Get the job's log entries, oldest first
+ * @access  Public
+ * @query   level - Least severe level returned (error, warn, info, debug)
+ * @query   limit (1-1000, default 100), offset (default 0)
+ */
+router.get(
+  '/:jobId/logs',
+  validateQuery(jobLogQuerySchema),
+  asyncHandler(jobController.getJobLogs.bind(jobController))
+);
+
+/**
+ * @route   GET /api/jobs/:jobId/webhooks
+ * @desc    List the job's webhook deliveries and their attempts
+ * @access  Public
+ */
+router.get(
+  '/:jobId/webhooks',
+  asyncHandler(jobController.listWebhooks.bind(jobController))
+);
+
+/**
+ * @route   POST /api/jobs/:jobId/webhooks/:deliveryId/redeliver
+ * @desc    Send a webhook delivery again as a new delivery
+ * @access  Public
+ */
+router.post(
+  '/:jobId/webhooks/:deliveryId/redeliver',
+  asyncHandler(jobController.redeliverWebhook.bind(jobController))
+);
+
+/**
+ * @route   POST /api/jobs/:jobId/pause
+ * @desc    Park a job at its next batch boundary
+ * @access  Public
+ */
+router.post(
+  '/:jobId/pause',
+  asyncHandler(jobController.pauseJob.bind(jobController))
+);
+
+/**
+ * @route   POST /api/jobs/:jobId/resume
+ * @desc    Resume a paused job from its checkpoint
+ * @access  Public
+ */
+router.post(
+  '/:jobId/resume',
+  asyncHandler(jobController.resumeJob.bind(jobController))
+);
+
 /**
  * @route   DELETE /api/jobs/:jobId
  * @desc    Cancel job by ID
  * @access  Public
+ * @query   rollback - true to delete the rows the job already inserted
  */
 router.delete(
   '/:jobId',
+  validateQuery(cancelJobQuerySchema),
   asyncHandler(jobController.cancelJob.bind(jobController))
 );
 
@@ -5,7 +5,7 @@ import uploadController from '../controllers/upload.controller';
 import { asyncHandler } from '../middleware/error.middleware';
 import { upload } from '../middleware/upload.middleware';
 import { validate } from '../middleware/validation.middleware';
-import { uploadSchema } from '../validators/upload.validator';
+import { inspectSchema, uploadSchema } from '../validators/upload.validator';
 
 const router = Router();
 
@@ -44,4 +44,18 @@ router.post(
   asyncHandler(uploadController.validateFile.bind(uploadController))
 );
 
+/**
+ * @route   POST /api/upload/inspect
+ * @desc    Describe worksheets, headers, row counts, sample rows and
+ *          inferred column types without importing
+ * @access  Public
+ */
+router.post(
+  '/inspect',
+  uploadLimiter,
+  upload.single('file'),
+  validate(inspectSchema),
+  asyncHandler(uploadController.inspectFile.bind(uploadController))
+);
+
 export default router;
@@ -1,8 +1,14 @@
 import app from './app';
 import { appConfig } from './config/app.config';
 import DatabaseConnection from './config/database.config';
+import jobEventsService from './services/job-events.service';
+import { JobLogTransport } from './utils/job-log.transport';
 import logger from './utils/logger';
 import { startWorker, stopWorker } from './workers/import.worker';
+import {
+  startWebhookWorker,
+  stopWebhookWorker,
+} from './workers/webhook.worker';
 
 /**
  * Start the server
@@ -14,8 +20,12 @@ async function startServer(): Promise<void> {
     await db.connect();
     logger.info('Database connected successfully');
 
-    // Start worker
+    // Copy job-tagged log entries into each job's log
+    logger.add(new JobLogTransport());
+
+    // Start workers
     await startWorker();
+    startWebhookWorker();
 
     // Start Express server
     const server = app.listen(appConfig.port, () => {
@@ -36,12 +46,20 @@ async function startServer(): Promise<void> {
     const gracefulShutdown = async (signal: string) => {
       logger.info(`${signal} received, starting graceful shutdown...`);
 
+      // Event streams stay open until closed; clients reconnect elsewhere
+      try {
+        await jobEventsService.close();
+      } catch (error) {
+        logger.error('Error closing job event streams:', error);
+      }
+
       server.close(async () => {
         logger.info('HTTP server closed');
 
         try {
-          // Stop worker
+          // Stop workers; queued webhooks are sent once a worker restarts
           await stopWorker();
+          await stopWebhookWorker();
 
           // Close database connection
           await db.close();
@@ -0,0 +1,391 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  CsvEncoding,
+  CsvOptions,
+  ExcelValidationResult,
+  ImportBatch,
+  ImportRecord,
+  ValidationError,
+  WorksheetInspection,
+} from '../types';
+import { WorksheetProfiler } from '../utils/column.util';
+import logger from '../utils/logger';
+
+// A parsed record with its 1-based position in the file
+interface CsvRow {
+  rowNumber: number;
+  fields: string[];
+}
+
+class CsvService {
+  readonly batchSize = 500; // Process 500 rows at a time
+  private readonly sampleSize = 64 * 1024; // Bytes inspected for encoding
+
+  /**
+   * Stream CSV/TSV file and process rows in batches
+   * Produces the same record batches as ExcelService.streamExcelRows
+   */
+  async *streamCsvRows(
+    filePath: string,
+    options: CsvOptions = {},
+    skipRows: number = 0
+  ): AsyncGenerator<ImportBatch, void, unknown> {
+    try {
+      let headers: string[] = [];
+      let records: ImportRecord[] = [];
+      let rowNumbers: number[] = [];
+
+      for await (const row of this.readRows(filePath, options)) {
+        if (row.rowNumber <= skipRows) {
+          continue;
+        }
+
+        if (row.rowNumber === 1 + skipRows && options.hasHeaderRow !== false) {
+          headers = this.extractHeaders(row.fields);
+          logger.info(`CSV headers detected: ${headers.join(', ')}`);
+          continue;
+        }
+
+        if (headers.length === 0) {
+          headers = this.generateHeaders(row.fields.length);
+        }
+
+        const record = this.buildRecord(row.fields, headers);
+
+        // Only add rows that have at least one non-empty field
+        if (record) {
+          records.push(record);
+          rowNumbers.push(row.rowNumber);
+        }
+
+        if (records.length >= this.batchSize) {
+          yield { records, rowNumbers, headers };
+          records = [];
+          rowNumbers = [];
+        }
+      }
+
+      if (records.length > 0) {
+        yield { records, rowNumbers, headers };
+      }
+    } catch (error) {
+      logger.error('Error streaming CSV file:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate CSV file structure and content
+   */
+  async validateCsv(
+    filePath: string,
+    requiredColumns: string[],
+    options: CsvOptions = {},
+    skipRows: number = 0
+  ): Promise<ExcelValidationResult> {
+    const errors: ValidationError[] = [];
+
+    try {
+      const { headers, rowCount } = await this.scan(
+        filePath,
+        options,
+        skipRows
+      );
+
+      // Validate required columns
+      if (requiredColumns.length > 0) {
+        const missingColumns = requiredColumns.filter(
+          (col) => !headers.includes(col)
+        );
+        if (missingColumns.length > 0) {
+          errors.push({
+            field: 'columns',
+            message: `Missing required columns: ${missingColumns.join(', ')}`,
+          });
+        }
+      }
+
+      // Check for empty file
+      if (rowCount === 0) {
+        errors.push({
+          field: 'rows',
+          message: 'CSV file contains no data rows',
+        });
+      }
+
+      return {
+        isValid: errors.length === 0,
+        errors,
+        rowCount,
+        columns: headers,
+      };
+    } catch (error) {
+      logger.error('Error validating CSV file:', error);
+      return {
+        isValid: false,
+        errors: [
+          {
+            field: 'file',
+            message: `Failed to read CSV file: ${(error as Error).message}`,
+          },
+        ],
+        rowCount: 0,
+        columns: [],
+      };
+    }
+  }
+
+  /**
+   * Get total row count without loading entire file
+   */
+  async getRowCount(
+    filePath: string,
+    options: CsvOptions = {},
+    skipRows: number = 0
+  ): Promise<number> {
+    const { rowCount } = await this.scan(filePath, options, skipRows);
+    return rowCount;
+  }
+
+  /**
+   * Describe the file as a single worksheet: headers, row count,
+   * sample rows and inferred column types
+   */
+  async inspectCsv(
+    filePath: string,
+    name: string,
+    sampleSize: number,
+    options: CsvOptions = {},
+    skipRows: number = 0
+  ): Promise<WorksheetInspection> {
+    const profiler = new WorksheetProfiler(name, sampleSize);
+    let headers: string[] = [];
+
+    for await (const row of this.readRows(filePath, options)) {
+      if (row.rowNumber <= skipRows) {
+        continue;
+      }
+
+      if (row.rowNumber === 1 + skipRows && options.hasHeaderRow !== false) {
+        headers = this.extractHeaders(row.fields);
+        profiler.setHeaders(headers);
+        continue;
+      }
+
+      if (headers.length === 0) {
+        headers = this.generateHeaders(row.fields.length);
+        profiler.setHeaders(headers);
+      }
+
+      const record = this.buildRecord(row.fields, headers);
+      if (record) {
+        profiler.addRecord(record);
+      }
+    }
+
+    return profiler.toInspection();
+  }
+
+  /**
+   * Detect the text encoding of a file
+   * A byte order mark wins; otherwise the sample must be valid UTF-8,
+   * and anything else is treated as Windows-1252
+   */
+  async detectEncoding(filePath: string): Promise<CsvEncoding> {
+    const handle = await fs.promises.open(filePath, 'r');
+
+    try {
+      const sample = Buffer.alloc(this.sampleSize);
+      const { bytesRead } = await handle.read(sample, 0, this.sampleSize, 0);
+      const bytes = sample.subarray(0, bytesRead);
+
+      if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+        return 'utf-8';
+      }
+      if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+        return 'utf-16le';
+      }
+      if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+        return 'utf-16be';
+      }
+
+      try {
+        // stream: true tolerates a multi-byte character cut off by the sample
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes, {
+          stream: true,
+        });
+        return 'utf-8';
+      } catch {
+        return 'windows-1252';
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Count the data rows and read the headers in a single pass
+   */
+  private async scan(
+    filePath: string,
+    options: CsvOptions,
+    skipRows: number
+  ): Promise<{ headers: string[]; rowCount: number }> {
+    let headers: string[] = [];
+    let rowCount = 0;
+
+    for await (const row of this.readRows(filePath, options)) {
+      if (row.rowNumber <= skipRows) {
+        continue;
+      }
+
+      if (row.rowNumber === 1 + skipRows && options.hasHeaderRow !== false) {
+        headers = this.extractHeaders(row.fields);
+        continue;
+      }
+
+      if (headers.length === 0) {
+        headers = this.generateHeaders(row.fields.length);
+      }
+
+      if (this.buildRecord(row.fields, headers)) {
+        rowCount++;
+      }
+    }
+
+    return { headers, rowCount };
+  }
+
+  /**
+   * Decode the file and split it into records
+   * Handles quoted fields, escaped quotes, embedded line breaks and
+   * CRLF/LF/CR line endings across chunk boundaries
+   */
+  private async *readRows(
+    filePath: string,
+    options: CsvOptions
+  ): AsyncGenerator<CsvRow, void, unknown> {
+    const encoding =
+      !options.encoding || options.encoding === 'auto'
+        ? await this.detectEncoding(filePath)
+        : options.encoding;
+    const delimiter = options.delimiter ?? this.defaultDelimiter(filePath);
+    const quoteChar = options.quoteChar ?? '"';
+
+    // TextDecoder strips a matching byte order mark by default
+    const decoder = new TextDecoder(encoding);
+
+    let rowNumber = 0;
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let quotePending = false; // Saw a quote inside a quoted field
+    let afterCarriageReturn = false;
+
+    const parse = (text: string): CsvRow[] => {
+      const rows: CsvRow[] = [];
+
+      for (const char of text) {
+        if (afterCarriageReturn) {
+          afterCarriageReturn = false;
+          if (char === '\n') {
+            continue;
+          }
+        }
+
+        if (inQuotes) {
+          if (quotePending) {
+            quotePending = false;
+            if (char === quoteChar) {
+              field += quoteChar;
+              continue;
+            }
+            inQuotes = false;
+          } else if (char === quoteChar) {
+            quotePending = true;
+            continue;
+          } else {
+            field += char;
+            continue;
+          }
+        }
+
+        if (char === quoteChar && field.length === 0) {
+          inQuotes = true;
+        } else if (char === delimiter) {
+          fields.push(field);
+          field = '';
+        } else if (char === '\n' || char === '\r') {
+          afterCarriageReturn = char === '\r';
+          fields.push(field);
+          rows.push({ rowNumber: ++rowNumber, fields });
+          fields = [];
+          field = '';
+        } else {
+          field += char;
+        }
+      }
+
+      return rows;
+    };
+
+    const stream = fs.createReadStream(filePath);
+
+    for await (const chunk of stream) {
+      yield* parse(decoder.decode(chunk as Buffer, { stream: true }));
+    }
+
+    yield* parse(decoder.decode());
+
+    // Flush the last record when the file has no trailing line break
+    if (field.length > 0 || fields.length > 0 || inQuotes) {
+      fields.push(field);
+      yield { rowNumber: ++rowNumber, fields };
+    }
+  }
+
+  /**
+   * Tab for .tsv files, comma for everything else
+   */
+  private defaultDelimiter(filePath: string): string {
+    return path.extname(filePath).toLowerCase() === '.tsv' ? '\t' : ',';
+  }
+
+  private extractHeaders(fields: string[]): string[] {
+    return fields.map((field) => field.trim());
+  }
+
+  /**
+   * Positional headers (Column1, Column2, ...) for files without a header row
+   */
+  private generateHeaders(count: number): string[] {
+    return Array.from({ length: count }, (_, i) => `Column${i + 1}`);
+  }
+
+  /**
+   * Map a record onto the headers, or null if every field is empty
+   */
+  private buildRecord(
+    fields: string[],
+    headers: string[]
+  ): ImportRecord | null {
+    const record: ImportRecord = {};
+    let hasData = false;
+
+    headers.forEach((header, index) => {
+      if (!header) {
+        return;
+      }
+      const value = fields[index];
+      record[header] = value === undefined || value === '' ? null : value;
+      if (record[header] !== null) {
+        hasData = true;
+      }
+    });
+
+    return hasData ? record : null;
+  }
+}
+
+export default new CsvService();
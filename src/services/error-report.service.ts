@@ -0,0 +1,156 @@
+import ExcelJS from 'exceljs';
+import fs from 'node:fs';
+import { Writable } from 'node:stream';
+import { finished } from 'node:stream/promises';
+import failedRecordRepository from '../repositories/failed-record.repository';
+import { FailedRowEdit } from '../types';
+import { ERROR_REPORT_COLUMN } from '../utils/column.util';
+import logger from '../utils/logger';
+
+// Worksheet used for CSV files, which have no sheet name
+const DEFAULT_WORKSHEET = 'Errors';
+
+const HIGHLIGHT_FILL: ExcelJS.Fill = {
+  type: 'pattern',
+  pattern: 'solid',
+  fgColor: { argb: 'FFFFC7CE' },
+};
+
+/**
+ * Builds a workbook of a job's failed rows: the original columns plus an
+ * Error column, with the failing cells highlighted, so the rows can be
+ * corrected and uploaded again
+ */
+class ErrorReportService {
+  /**
+   * Check whether a job has failed rows to report
+   */
+  async hasReport(jobId: string): Promise<boolean> {
+    return (await failedRecordRepository.count(jobId)) > 0;
+  }
+
+  /**
+   * Stream the report to a response or file, one worksheet per source sheet
+   * Edits replace cell values of the rows they match; edits that match no
+   * failed row or column are returned as problems
+   */
+  async writeReport(
+    jobId: string,
+    output: Writable,
+    edits: FailedRowEdit[] = []
+  ): Promise<string[]> {
+    const headersBySheet = await failedRecordRepository.getHeaders(jobId);
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useStyles: true,
+    });
+    const pendingEdits = new Map(
+      edits.map((edit) => [
+        this.getEditKey(edit.sheetName, edit.rowNumber),
+        edit,
+      ])
+    );
+    const problems: string[] = [];
+
+    let currentSheet: string | undefined;
+    let worksheet: ExcelJS.Worksheet | undefined;
+    let headers: string[] = [];
+    let rowCount = 0;
+
+    // Sheets are imported one after another, so their rows arrive together
+    for await (const record of failedRecordRepository.stream(jobId)) {
+      const sheetName = record.sheetName ?? '';
+
+      if (!worksheet || sheetName !== currentSheet) {
+        worksheet?.commit();
+        currentSheet = sheetName;
+        headers =
+          headersBySheet.get(sheetName) ?? Object.keys(record.data ?? {});
+        worksheet = this.addWorksheet(workbook, sheetName, headers);
+      }
+
+      const editKey = this.getEditKey(sheetName, record.rowNumber);
+      const edit = pendingEdits.get(editKey);
+      if (edit) {
+        pendingEdits.delete(editKey);
+        const unknownColumns = Object.keys(edit.values).filter(
+          (header) => !headers.includes(header)
+        );
+        if (unknownColumns.length > 0) {
+          problems.push(
+            `${this.describeRow(edit)} has no columns ${unknownColumns.join(', ')}`
+          );
+        }
+      }
+
+      const values = { ...record.data, ...edit?.values };
+      const failedColumns = new Set(record.columns ?? []);
+      const row = worksheet.addRow([
+        ...headers.map((header) => values[header] ?? null),
+        record.error,
+      ]);
+      headers.forEach((header, index) => {
+        if (failedColumns.has(header)) {
+          row.getCell(index + 1).fill = HIGHLIGHT_FILL;
+        }
+      });
+      row.commit();
+      rowCount++;
+    }
+
+    worksheet?.commit();
+    await workbook.commit();
+
+    for (const edit of pendingEdits.values()) {
+      problems.push(`${this.describeRow(edit)} did not fail`);
+    }
+
+    logger.info(`Error report for job ${jobId} written`, {
+      rowCount,
+      edits: edits.length,
+    });
+    return problems;
+  }
+
+  /**
+   * Write the report with edits applied to a file that can be imported
+   * again; the Error column is ignored on import
+   */
+  async writeRetryFile(
+    jobId: string,
+    filePath: string,
+    edits: FailedRowEdit[] = []
+  ): Promise<string[]> {
+    const output = fs.createWriteStream(filePath);
+    const problems = await this.writeReport(jobId, output, edits);
+    await finished(output);
+    return problems;
+  }
+
+  /**
+   * Add a worksheet with a bold header row
+   */
+  private addWorksheet(
+    workbook: ExcelJS.stream.xlsx.WorkbookWriter,
+    sheetName: string,
+    headers: string[]
+  ): ExcelJS.Worksheet {
+    const worksheet = workbook.addWorksheet(sheetName || DEFAULT_WORKSHEET);
+    const headerRow = worksheet.addRow([...headers, ERROR_REPORT_COLUMN]);
+    headerRow.font = { bold: true };
+    headerRow.commit();
+    return worksheet;
+  }
+
+  private getEditKey(sheetName: string | undefined, rowNumber: number): string {
+    return `${sheetName ?? ''}:${rowNumber}`;
+  }
+
+  private describeRow(edit: FailedRowEdit): string {
+    return edit.sheetName
+      ? `Row ${edit.rowNumber} of sheet ${edit.sheetName}`
+      : `Row ${edit.rowNumber}`;
+  }
+}
+
+export default new ErrorReportService();
@@ -1,72 +1,68 @@
 import ExcelJS from 'exceljs';
-import { ExcelValidationResult, ImportRecord, ValidationError } from '../types';
+import {
+  ExcelValidationResult,
+  ImportBatch,
+  ImportRecord,
+  ValidationError,
+  WorksheetInspection,
+} from '../types';
+import { WorksheetProfiler } from '../utils/column.util';
 import logger from '../utils/logger';
 
+// Worksheet readers emitted by the streaming WorkbookReader carry the sheet
+// name, but ExcelJS does not declare it in its typings
+interface StreamedWorksheet extends ExcelJS.stream.xlsx.WorksheetReader {
+  name: string;
+}
+
 class ExcelService {
+  readonly batchSize = 500; // Process 500 rows at a time
+
   /**
    * Stream Excel file and process rows in batches
+   * Rows are parsed straight from the zip entry, so only the current batch
+   * is held in memory and the consumer's `for await` loop throttles parsing
    */
   async *streamExcelRows(
     filePath: string,
     sheetName?: string,
     skipRows: number = 0
-  ): AsyncGenerator<ImportRecord[], void, unknown> {
-    const workbook = new ExcelJS.Workbook();
-
+  ): AsyncGenerator<ImportBatch, void, unknown> {
     try {
-      await workbook.xlsx.readFile(filePath);
-
-      // Get the worksheet
-      const worksheet = sheetName
-        ? workbook.getWorksheet(sheetName)
-        : workbook.worksheets[0];
-
-      if (!worksheet) {
-        throw new Error(`Worksheet ${sheetName || 'default'} not found`);
-      }
-
-      // Get headers from first row
-      const headerRow = worksheet.getRow(1 + skipRows);
-      const headers: string[] = [];
-      headerRow.eachCell((cell, colNumber) => {
-        headers[colNumber - 1] = String(cell.value).trim();
-      });
-
-      logger.info(`Excel headers detected: ${headers.join(', ')}`);
-
-      const batch: ImportRecord[] = []; // Changed from 'let' to 'const'
-      const batchSize = 500; // Process 500 rows at a time
+      let headers: string[] = [];
+      let records: ImportRecord[] = [];
+      let rowNumbers: number[] = [];
+
+      for await (const row of this.readWorksheetRows(filePath, sheetName)) {
+        // Skip banner rows above the header
+        if (row.number < 1 + skipRows) {
+          continue;
+        }
 
-      // Stream rows starting after headers
-      worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
-        // Skip header row and any additional skip rows
-        if (rowNumber <= 1 + skipRows) {
-          return;
+        // Get headers from the first row after the skipped rows
+        if (row.number === 1 + skipRows) {
+          headers = this.extractHeaders(row);
+          logger.info(`Excel headers detected: ${headers.join(', ')}`);
+          continue;
         }
 
-        const record: ImportRecord = {};
-        let hasData = false;
-
-        row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
-          const header = headers[colNumber - 1];
-          if (header) {
-            const value = this.getCellValue(cell);
-            record[header] = value;
-            if (value !== null && value !== '') {
-              hasData = true;
-            }
-          }
-        });
+        const record = this.buildRecord(row, headers);
 
         // Only add rows that have at least one non-empty cell
-        if (hasData) {
-          batch.push(record);
+        if (record) {
+          records.push(record);
+          rowNumbers.push(row.number);
         }
-      });
 
-      // Yield all batches after processing all rows
-      for (let i = 0; i < batch.length; i += batchSize) {
-        yield batch.slice(i, i + batchSize);
+        if (records.length >= this.batchSize) {
+          yield { records, rowNumbers, headers };
+          records = [];
+          rowNumbers = [];
+        }
+      }
+
+      if (records.length > 0) {
+        yield { records, rowNumbers, headers };
       }
     } catch (error) {
       logger.error('Error streaming Excel file:', error);
@@ -83,37 +79,23 @@ class ExcelService {
     sheetName?: string,
     skipRows: number = 0
   ): Promise<ExcelValidationResult> {
-    const workbook = new ExcelJS.Workbook();
     const errors: ValidationError[] = [];
 
     try {
-      await workbook.xlsx.readFile(filePath);
-
-      const worksheet = sheetName
-        ? workbook.getWorksheet(sheetName)
-        : workbook.worksheets[0];
-
-      if (!worksheet) {
-        return {
-          isValid: false,
-          errors: [
-            {
-              field: 'worksheet',
-              message: `Worksheet ${sheetName || 'default'} not found`,
-            },
-          ],
-          rowCount: 0,
-          columns: [],
-        };
+      let headers: string[] = [];
+      let rowCount = 0;
+
+      for await (const row of this.readWorksheetRows(filePath, sheetName)) {
+        if (row.number === 1 + skipRows) {
+          headers = this.extractHeaders(row);
+        } else if (
+          row.number > 1 + skipRows &&
+          this.buildRecord(row, headers)
+        ) {
+          rowCount++;
+        }
       }
 
-      // Get headers
-      const headerRow = worksheet.getRow(1 + skipRows);
-      const headers: string[] = [];
-      headerRow.eachCell((cell, colNumber) => {
-        headers[colNumber - 1] = String(cell.value).trim();
-      });
-
       // Validate required columns
       if (requiredColumns.length > 0) {
         const missingColumns = requiredColumns.filter(
@@ -127,9 +109,6 @@ class ExcelService {
         }
       }
 
-      // Count rows (excluding header)
-      const rowCount = worksheet.rowCount - (1 + skipRows);
-
       // Check for empty file
       if (rowCount === 0) {
         errors.push({
@@ -141,10 +120,19 @@ class ExcelService {
       return {
         isValid: errors.length === 0,
         errors,
-        rowCount: Math.max(0, rowCount),
+        rowCount,
         columns: headers,
       };
     } catch (error) {
+      if (this.isWorksheetNotFound(error)) {
+        return {
+          isValid: false,
+          errors: [{ field: 'worksheet', message: (error as Error).message }],
+          rowCount: 0,
+          columns: [],
+        };
+      }
+
       logger.error('Error validating Excel file:', error);
       return {
         isValid: false,
@@ -160,6 +148,126 @@ class ExcelService {
     }
   }
 
+  /**
+   * Describe every worksheet: headers, row count, sample rows and
+   * inferred column types, in a single streaming pass
+   */
+  async inspectWorkbook(
+    filePath: string,
+    sampleSize: number,
+    skipRows: number = 0
+  ): Promise<WorksheetInspection[]> {
+    const inspections: WorksheetInspection[] = [];
+
+    for await (const worksheetReader of this.openWorkbook(filePath)) {
+      const worksheet = worksheetReader as StreamedWorksheet;
+      const profiler = new WorksheetProfiler(worksheet.name, sampleSize);
+      let headers: string[] = [];
+
+      for await (const row of worksheet) {
+        if (row.number === 1 + skipRows) {
+          headers = this.extractHeaders(row);
+          profiler.setHeaders(headers);
+        } else if (row.number > 1 + skipRows) {
+          const record = this.buildRecord(row, headers);
+          if (record) {
+            profiler.addRecord(record);
+          }
+        }
+      }
+
+      inspections.push(profiler.toInspection());
+    }
+
+    return inspections;
+  }
+
+  /**
+   * Open a streaming reader over the workbook's worksheets
+   */
+  private openWorkbook(filePath: string): ExcelJS.stream.xlsx.WorkbookReader {
+    return new ExcelJS.stream.xlsx.WorkbookReader(filePath, {
+      sharedStrings: 'cache',
+      styles: 'cache', // Needed to tell dates apart from plain numbers
+      hyperlinks: 'ignore',
+      worksheets: 'emit',
+      entries: 'ignore',
+    });
+  }
+
+  /**
+   * Stream the rows of a single worksheet without loading the workbook
+   * Other worksheets are drained unread; throws if the sheet does not exist
+   */
+  private async *readWorksheetRows(
+    filePath: string,
+    sheetName?: string
+  ): AsyncGenerator<ExcelJS.Row, void, unknown> {
+    let found = false;
+
+    for await (const worksheetReader of this.openWorkbook(filePath)) {
+      const worksheet = worksheetReader as StreamedWorksheet;
+      const isTarget = sheetName ? worksheet.name === sheetName : !found;
+
+      if (found || !isTarget) {
+        continue;
+      }
+
+      found = true;
+      for await (const row of worksheet) {
+        yield row;
+      }
+    }
+
+    if (!found) {
+      throw new Error(`Worksheet ${sheetName || 'default'} not found`);
+    }
+  }
+
+  /**
+   * Read header names from a row, indexed by column position
+   */
+  private extractHeaders(row: ExcelJS.Row): string[] {
+    const headers: string[] = [];
+    row.eachCell((cell, colNumber) => {
+      headers[colNumber - 1] = String(this.getCellValue(cell) ?? '').trim();
+    });
+    return headers;
+  }
+
+  /**
+   * Map a data row onto the headers, or null if every cell is empty
+   */
+  private buildRecord(
+    row: ExcelJS.Row,
+    headers: string[]
+  ): ImportRecord | null {
+    const record: ImportRecord = {};
+    let hasData = false;
+
+    row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+      const header = headers[colNumber - 1];
+      if (header) {
+        const value = this.getCellValue(cell);
+        record[header] = value;
+        if (value !== null && value !== '') {
+          hasData = true;
+        }
+      }
+    });
+
+    return hasData ? record : null;
+  }
+
+  /**
+   * Check whether a read failed because the requested sheet is missing
+   */
+  private isWorksheetNotFound(error: unknown): boolean {
+    return (
+      error instanceof Error && /^Worksheet .* not found$/.test(error.message)
+    );
+  }
+
   /**
    * Get typed cell value
    */
@@ -213,24 +321,25 @@ class ExcelService {
 
   /**
    * Get total row count without loading entire file
+   * Counts the non-empty data rows while streaming the worksheet
    */
   async getRowCount(
     filePath: string,
     sheetName?: string,
     skipRows: number = 0
   ): Promise<number> {
-    const workbook = new ExcelJS.Workbook();
-    await workbook.xlsx.readFile(filePath);
-
-    const worksheet = sheetName
-      ? workbook.getWorksheet(sheetName)
-      : workbook.worksheets[0];
-
-    if (!worksheet) {
-      throw new Error(`Worksheet ${sheetName || 'default'} not found`);
+    let headers: string[] = [];
+    let rowCount = 0;
+
+    for await (const row of this.readWorksheetRows(filePath, sheetName)) {
+      if (row.number === 1 + skipRows) {
+        headers = this.extractHeaders(row);
+      } else if (row.number > 1 + skipRows && this.buildRecord(row, headers)) {
+        rowCount++;
+      }
     }
 
-    return Math.max(0, worksheet.rowCount - (1 + skipRows));
+    return rowCount;
   }
 }
 
@@ -0,0 +1,140 @@
+import path from 'node:path';
+import {
+  CsvOptions,
+  ExcelValidationResult,
+  FileInspection,
+  ImportBatch,
+  ReadOptions,
+} from '../types';
+import csvService from './csv.service';
+import excelService from './excel.service';
+
+const DELIMITED_EXTENSIONS = ['.csv', '.tsv'];
+
+/**
+ * Picks the Excel or CSV reader for an uploaded file based on its extension
+ * Both readers produce the same ImportRecord batches, so callers stay
+ * format-agnostic
+ */
+class FileReaderService {
+  /**
+   * Check whether a file is delimited text rather than a workbook
+   */
+  isDelimitedFile(filePath: string): boolean {
+    return DELIMITED_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+  }
+
+  /**
+   * Build reader options from validated request fields
+   * CSV options only apply to delimited files
+   */
+  getReadOptions(
+    filePath: string,
+    fields: Omit<ReadOptions, 'csvOptions'> & CsvOptions
+  ): ReadOptions {
+    const {
+      sheetName,
+      skipRows,
+      delimiter,
+      quoteChar,
+      encoding,
+      hasHeaderRow,
+    } = fields;
+
+    return {
+      sheetName,
+      skipRows: skipRows ?? 0,
+      csvOptions: this.isDelimitedFile(filePath)
+        ? { delimiter, quoteChar, encoding, hasHeaderRow }
+        : undefined,
+    };
+  }
+
+  /**
+   * Stream file rows in batches
+   */
+  streamRows(
+    filePath: string,
+    options: ReadOptions = {}
+  ): AsyncGenerator<ImportBatch, void, unknown> {
+    const { sheetName, skipRows = 0, csvOptions } = options;
+
+    return this.isDelimitedFile(filePath)
+      ? csvService.streamCsvRows(filePath, csvOptions, skipRows)
+      : excelService.streamExcelRows(filePath, sheetName, skipRows);
+  }
+
+  /**
+   * Number of batches streamRows yields for a row count
+   */
+  getBatchCount(filePath: string, rowCount: number): number {
+    const { batchSize } = this.isDelimitedFile(filePath)
+      ? csvService
+      : excelService;
+    return Math.ceil(rowCount / batchSize);
+  }
+
+  /**
+   * Validate file structure and content
+   */
+  validateStructure(
+    filePath: string,
+    requiredColumns: string[],
+    options: ReadOptions = {}
+  ): Promise<ExcelValidationResult> {
+    const { sheetName, skipRows = 0, csvOptions } = options;
+
+    return this.isDelimitedFile(filePath)
+      ? csvService.validateCsv(filePath, requiredColumns, csvOptions, skipRows)
+      : excelService.validateExcel(
+          filePath,
+          requiredColumns,
+          sheetName,
+          skipRows
+        );
+  }
+
+  /**
+   * Get total data row count
+   */
+  getRowCount(filePath: string, options: ReadOptions = {}): Promise<number> {
+    const { sheetName, skipRows = 0, csvOptions } = options;
+
+    return this.isDelimitedFile(filePath)
+      ? csvService.getRowCount(filePath, csvOptions, skipRows)
+      : excelService.getRowCount(filePath, sheetName, skipRows);
+  }
+
+  /**
+   * Describe every worksheet of a file without importing it
+   * CSV/TSV files are reported as a single worksheet named after the file
+   */
+  async inspectFile(
+    filePath: string,
+    fileName: string,
+    sampleSize: number,
+    options: ReadOptions = {}
+  ): Promise<FileInspection> {
+    const { skipRows = 0, csvOptions } = options;
+
+    if (this.isDelimitedFile(filePath)) {
+      const worksheet = await csvService.inspectCsv(
+        filePath,
+        path.parse(fileName).name,
+        sampleSize,
+        csvOptions,
+        skipRows
+      );
+      return { fileName, format: 'csv', worksheets: [worksheet] };
+    }
+
+    const worksheets = await excelService.inspectWorkbook(
+      filePath,
+      sampleSize,
+      skipRows
+    );
+    return { fileName, format: 'xlsx', worksheets };
+  }
+}
+
+export default new FileReaderService();
@@ -1,21 +1,387 @@
+import sql from 'mssql';
+import { v4 as uuidv4 } from 'uuid';
+import { appConfig } from '../config/app.config';
 import dataRepository from '../repositories/data.repository';
-import { JobProgress } from '../types';
+import {
+  BatchInsertResult,
+  ColumnMetadata,
+  FailedRecord,
+  FailurePolicy,
+  FailureTotals,
+  ImportCheckpoint,
+  ImportMode,
+  ImportOptions,
+  ImportRecord,
+  ImportResult,
+  ImportValidationResult,
+  JobData,
+  JobImportOptions,
+  JobProgress,
+  SheetCompletionResult,
+  SheetImportConfig,
+  SheetCheckpoint,
+  SheetProgress,
+  ValidationError,
+} from '../types';
 import logger from '../utils/logger';
-import excelService from './excel.service';
+import { SchemaValidator } from '../validators/schema.validator';
+import fileReaderService from './file-reader.service';
+
+// Where and how batches of one import are written
+interface WriteTarget {
+  tableName: string;
+  loadTable: string; // Shadow table in replace mode, otherwise tableName
+  tableColumns: ColumnMetadata[];
+  columnMapping?: Record<string, string>;
+  mode: ImportMode;
+  keyColumns: string[];
+  transaction?: sql.Transaction; // Set for atomic imports
+}
+
+// Rows written by one batch and the rows that failed
+interface WriteOutcome {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  failedRecords: FailedRecord[];
+}
+
+// Sheet or file a job wrote rows to, up to and including lastRowNumber
+interface WrittenPart {
+  sheetName?: string;
+  tableName: string;
+  columnMapping?: Record<string, string>;
+  skipRows?: number;
+  lastRowNumber: number;
+}
+
+// Window over which the throughput behind the ETA is measured
+const THROUGHPUT_WINDOW_MS = 60 * 1000;
+
+// SQL Server error raised when a statement conflicts with a foreign key
+// or check constraint
+const CONSTRAINT_CONFLICT = 547;
+
+/**
+ * Raised when an import breaches its failure policy, or a replace import
+ * cannot swap in its shadow table
+ * Retrying the same file cannot succeed, so the job should not be retried
+ */
+export class ImportAbortedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportAbortedError';
+    Object.setPrototypeOf(this, ImportAbortedError.prototype);
+  }
+}
+
+/**
+ * Raised when a job is cancelled while it runs
+ */
+export class ImportCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportCancelledError';
+    Object.setPrototypeOf(this, ImportCancelledError.prototype);
+  }
+}
+
+/**
+ * Raised when an attempt runs past the job's timeout
+ * The attempt stops at a batch boundary and is retried like any failure
+ */
+export class ImportTimedOutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportTimedOutError';
+    Object.setPrototypeOf(this, ImportTimedOutError.prototype);
+  }
+}
+
+/**
+ * Raised when a job is paused at a batch boundary
+ * Its checkpoint covers every written batch, so it resumes from there
+ */
+export class ImportPausedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportPausedError';
+    Object.setPrototypeOf(this, ImportPausedError.prototype);
+  }
+}
+
+/**
+ * Running totals for one job, checked against its failure policy after
+ * every batch; shared by all sheets of a workbook
+ */
+class FailureTracker {
+  processed = 0;
+  failed = 0;
+  written = 0;
+
+  constructor(
+    private readonly policy: FailurePolicy,
+    totals?: FailureTotals // Restored from a checkpoint
+  ) {
+    Object.assign(this, totals);
+  }
+
+  get totals(): FailureTotals {
+    const { processed, written, failed } = this;
+    return { processed, written, failed };
+  }
+
+  /**
+   * Add a batch and return why the import must stop, if it must
+   */
+  record(
+    processed: number,
+    written: number,
+    failures: FailedRecord[]
+  ): string | null {
+    this.processed += processed;
+    this.written += written;
+    this.failed += failures.length;
+
+    const { maxFailedRows, maxFailedPercentage, stopOnFirstError } =
+      this.policy;
+
+    if (stopOnFirstError && failures.length > 0) {
+      return `Row ${failures[0].rowNumber} failed: ${failures[0].error}`;
+    }
+    if (maxFailedRows !== undefined && this.failed > maxFailedRows) {
+      return `${this.failed} failed rows exceed the limit of ${maxFailedRows}`;
+    }
+    if (maxFailedPercentage !== undefined && this.processed > 0) {
+      const percentage = (this.failed / this.processed) * 100;
+      if (percentage > maxFailedPercentage) {
+        return `${percentage.toFixed(1)}% of ${this.processed} processed rows failed, above the limit of ${maxFailedPercentage}%`;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Rows read by one attempt of a job, sampled after every batch; the rate
+ * over the last minute drives the ETA so it follows slowdowns instead of
+ * averaging them away. Shared by all sheets of a workbook
+ */
+class ThroughputTracker {
+  private readonly startedAt = Date.now();
+  private rows = 0;
+  private samples = [{ at: this.startedAt, rows: 0 }];
+
+  /**
+   * Add the rows of a batch
+   */
+  record(rows: number): void {
+    const now = Date.now();
+    this.rows += rows;
+    this.samples.push({ at: now, rows: this.rows });
+
+    // Keep one sample older than the window as its starting point
+    while (
+      this.samples.length > 2 &&
+      now - this.samples[1].at >= THROUGHPUT_WINDOW_MS
+    ) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Rows per second over the rolling window
+   */
+  get recordsPerSecond(): number | undefined {
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+    return this.rate(last.rows - first.rows, last.at - first.at);
+  }
+
+  /**
+   * Rows per second since the attempt started
+   */
+  get averageRecordsPerSecond(): number | undefined {
+    return this.rate(this.rows, Date.now() - this.startedAt);
+  }
+
+  /**
+   * Milliseconds left to read the remaining rows at the current rate
+   */
+  estimateTimeRemaining(remainingRows: number): number | undefined {
+    const recordsPerSecond = this.recordsPerSecond;
+    if (!recordsPerSecond) {
+      return undefined;
+    }
+    return Math.round((Math.max(remainingRows, 0) / recordsPerSecond) * 1000);
+  }
+
+  private rate(rows: number, elapsedMs: number): number | undefined {
+    if (elapsedMs <= 0) {
+      return undefined;
+    }
+    return Math.round((rows / elapsedMs) * 10000) / 10;
+  }
+}
 
 class ImportService {
   /**
-   * Process Excel file and import to database
+   * Process Excel or CSV file and import to database
+   * With atomic set, the whole import runs in one transaction that is
+   * rolled back when the failure policy is breached
    */
   async processImport(
     filePath: string,
     tableName: string,
-    sheetName?: string,
-    columnMapping?: Record<string, string>,
-    skipRows: number = 0,
+    options: ImportOptions = {},
     onProgress?: (progress: JobProgress) => void
-  ): Promise<{ successCount: number; failedCount: number; duration: number }> {
+  ): Promise<ImportResult> {
+    const throughput = new ThroughputTracker();
+    let result: ImportResult;
+    if (!options.atomic) {
+      const tracker = new FailureTracker(
+        this.resolvePolicy(options),
+        options.checkpoint?.failureTotals
+      );
+      result = await this.importRows(
+        filePath,
+        tableName,
+        options,
+        tracker,
+        throughput,
+        onProgress
+      );
+    } else {
+      // A rolled back attempt wrote nothing, so there is nothing to resume
+      const tracker = new FailureTracker(this.resolvePolicy(options));
+      result = await this.runInTransaction((transaction) =>
+        this.importRows(
+          filePath,
+          tableName,
+          options,
+          tracker,
+          throughput,
+          onProgress,
+          transaction
+        )
+      );
+    }
+
+    return {
+      ...result,
+      recordsPerSecond: throughput.averageRecordsPerSecond,
+    };
+  }
+
+  /**
+   * Whether a job can stop at a batch boundary and resume from its
+   * checkpoint; atomic and replace imports start over instead
+   */
+  isResumable(job: Pick<JobData, 'atomic' | 'mode' | 'sheets'>): boolean {
+    return (
+      !job.atomic &&
+      job.mode !== 'replace' &&
+      !job.sheets?.some((sheet) => sheet.mode === 'replace')
+    );
+  }
+
+  /**
+   * Whether cancelling a job can undo what it wrote: inserted rows can be
+   * found again from the file, but updated or replaced rows cannot be
+   * restored. Atomic jobs are rolled back in any case
+   */
+  canRollBack(job: Pick<JobData, 'atomic' | 'mode' | 'sheets'>): boolean {
+    if (job.atomic) {
+      return true;
+    }
+    if (job.sheets?.length) {
+      return job.sheets.every((sheet) => (sheet.mode ?? 'insert') === 'insert');
+    }
+    return job.mode !== 'upsert' && job.mode !== 'update-only';
+  }
+
+  /**
+   * Delete the rows a cancelled insert job wrote, up to its checkpoint
+   * The rows are read again from the file and matched on the columns it
+   * loaded; failed rows were never written and are skipped. All sheets
+   * are undone in one transaction, so either every row goes or none does
+   * Returns the number of rows deleted
+   */
+  async rollbackImport(
+    job: JobData,
+    checkpoint: ImportCheckpoint,
+    failedRows: Map<string, Set<number>> // Failed file rows by sheet name
+  ): Promise<number> {
+    const parts = this.getWrittenParts(job, checkpoint);
+
+    // A failed row missing from the store would be taken for a written one
+    const storedFailures = parts.reduce(
+      (sum, part) =>
+        sum +
+        [...(failedRows.get(part.sheetName ?? '') ?? [])].filter(
+          (rowNumber) => rowNumber <= part.lastRowNumber
+        ).length,
+      0
+    );
+    if (storedFailures !== checkpoint.failureTotals.failed) {
+      throw new Error(
+        `Only ${storedFailures} of ${checkpoint.failureTotals.failed} failed rows are stored, so the written rows cannot be told apart; nothing was deleted`
+      );
+    }
+
+    const transaction = await dataRepository.beginTransaction();
+    let deleted = 0;
+    try {
+      for (const part of parts) {
+        deleted += await this.deleteWrittenRows(
+          job,
+          part,
+          failedRows.get(part.sheetName ?? '') ?? new Set(),
+          transaction
+        );
+      }
+      await transaction.commit();
+    } catch (error) {
+      await dataRepository.rollbackTransaction(transaction);
+      throw error;
+    }
+
+    logger.info(`Deleted ${deleted} rows written by job ${job.jobId}`, {
+      tables: parts.map((part) => part.tableName),
+    });
+    return deleted;
+  }
+
+  /**
+   * Stream, validate and write the rows of one sheet or file
+   * Resumes after the checkpointed row of this sheet, if there is one;
+   * atomic and replace imports restart from the first row since their
+   * partial writes are rolled back or dropped
+   */
+  private async importRows(
+    filePath: string,
+    tableName: string,
+    options: ImportOptions,
+    tracker: FailureTracker,
+    throughput: ThroughputTracker,
+    onProgress?: (progress: JobProgress) => void,
+    transaction?: sql.Transaction
+  ): Promise<ImportResult> {
     const startTime = Date.now();
+    const {
+      sheetName,
+      columnMapping,
+      mode = 'insert',
+      keyColumns = [],
+    } = options;
+    const loadTable =
+      mode === 'replace'
+        ? this.getShadowTableName(tableName, options.jobId)
+        : tableName;
+    const checkpointing = !transaction && mode !== 'replace';
+    const resumeFrom = checkpointing
+      ? this.getResumePosition(options.checkpoint, sheetName)
+      : undefined;
 
     try {
       // Validate table exists
@@ -24,12 +390,24 @@ class ImportService {
         throw new Error(`Table ${tableName} does not exist`);
       }
 
+      if (
+        (mode === 'upsert' || mode === 'update-only') &&
+        keyColumns.length === 0
+      ) {
+        throw new Error(`Key columns are required for ${mode} imports`);
+      }
+
+      if (transaction && mode === 'replace') {
+        throw new Error('Replace imports cannot run atomically');
+      }
+
       // Get total row count
-      const totalRecords = await excelService.getRowCount(
-        filePath,
-        sheetName,
-        skipRows
-      );
+      const totalRecords =
+        options.totalRecords ??
+        (await fileReaderService.getRowCount(filePath, options));
+      if (transaction) {
+        this.assertAtomicSize(totalRecords);
+      }
       logger.info(
         `Starting import of ${totalRecords} records to ${tableName}`,
         {
@@ -39,113 +417,1006 @@ class ImportService {
         }
       );
 
-      let successCount = 0;
-      let failedCount = 0;
-      let processedCount = 0;
+      // Table metadata is loaded once per job; it types the TVP columns
+      // and rows are checked against it before insert
+      const tableColumns = await dataRepository.getTableSchema(tableName);
+      const validator = new SchemaValidator(
+        tableColumns,
+        columnMapping,
+        keyColumns,
+        mode
+      );
+      const target: WriteTarget = {
+        tableName,
+        loadTable,
+        tableColumns,
+        columnMapping,
+        mode,
+        keyColumns,
+        transaction,
+      };
+      let headersChecked = false;
+      let loadedColumns: string[] = [];
+      let headers: string[] = [];
+      let reportColumns: string[] = [];
+
+      let {
+        successCount = 0,
+        insertedCount = 0,
+        updatedCount = 0,
+        unchangedCount = 0,
+        failedCount = 0,
+        processedCount = 0,
+      } = resumeFrom ?? {};
+      const failedRecords: FailedRecord[] = [];
+      if (resumeFrom) {
+        logger.info(
+          `Resuming import to ${tableName} after row ${resumeFrom.lastRowNumber}`,
+          { sheetName, processedCount }
+        );
+      }
+      const { maxFailedRecords } = appConfig.job;
 
-      // Process Excel file in batches
-      const rowGenerator = excelService.streamExcelRows(
+      // Process file in batches
+      const rowGenerator = fileReaderService.streamRows(filePath, options);
+      const totalBatches = fileReaderService.getBatchCount(
         filePath,
-        sheetName,
-        skipRows
+        totalRecords
       );
+      let currentBatch = 0;
 
       for await (const batch of rowGenerator) {
-        try {
-          // Use TVP for better performance
-          const result = await dataRepository.bulkInsertWithTVP(
-            tableName,
-            batch,
-            columnMapping
+        currentBatch++;
+        if (await options.isCancelled?.()) {
+          throw new ImportCancelledError(
+            `Import cancelled; ${this.describePartialData(mode, tableName, tracker, transaction)}`
           );
+        }
+        if (options.deadline && Date.now() > options.deadline) {
+          throw new ImportTimedOutError(
+            `Import timed out; ${this.describePartialData(mode, tableName, tracker, transaction)}`
+          );
+        }
+        if (checkpointing && (await options.shouldPause?.())) {
+          throw new ImportPausedError(`Import to ${tableName} paused`);
+        }
+
+        if (!headersChecked) {
+          const headerErrors = validator.validateHeaders(batch.headers);
+          if (headerErrors.length > 0) {
+            throw new Error(
+              `Columns do not match table ${tableName}: ${headerErrors.map((err) => err.message).join('; ')}`
+            );
+          }
+          headersChecked = true;
+
+          // The Error column of a re-uploaded error report is not data
+          reportColumns = batch.headers.filter((header) =>
+            validator.isReportColumn(header)
+          );
+          headers = batch.headers.filter(
+            (header) => !reportColumns.includes(header)
+          );
+          loadedColumns = batch.headers
+            .map((header) => header && validator.getTargetColumn(header)?.name)
+            .filter((name): name is string => !!name);
+          if (mode === 'replace') {
+            await dataRepository.createShadowTable(
+              tableName,
+              target.loadTable,
+              loadedColumns
+            );
+          }
+        }
+
+        // Rows up to the checkpoint were written by an earlier attempt
+        if (resumeFrom) {
+          const firstNewRow = batch.rowNumbers.findIndex(
+            (rowNumber) => rowNumber > resumeFrom.lastRowNumber
+          );
+          if (firstNewRow === -1) {
+            continue;
+          }
+          batch.records = batch.records.slice(firstNewRow);
+          batch.rowNumbers = batch.rowNumbers.slice(firstNewRow);
+        }
 
-          successCount += result.inserted;
-          failedCount += result.failed;
-          processedCount += batch.length;
-
-          // Report progress
-          if (onProgress) {
-            const progress: JobProgress = {
-              total: totalRecords,
-              processed: processedCount,
-              failed: failedCount,
-              percentage: Math.round((processedCount / totalRecords) * 100),
-            };
-            onProgress(progress);
+        const validRecords: ImportRecord[] = [];
+        const validRowNumbers: number[] = [];
+        const batchFailures: FailedRecord[] = [];
+        batch.records.forEach((record, index) => {
+          for (const header of reportColumns) {
+            delete record[header];
           }
 
-          logger.info(
-            `Batch processed: ${result.inserted} inserted, ${result.failed} failed`
+          const rowNumber = batch.rowNumbers[index];
+          const rowErrors = validator.validateRecord(
+            record,
+            rowNumber,
+            batch.headers
           );
+          if (rowErrors.length > 0) {
+            batchFailures.push(
+              this.toFailedRecord(
+                record,
+                rowNumber,
+                rowErrors
+                  .map((err) => `${err.column}: ${err.message}`)
+                  .join('; '),
+                rowErrors.map((err) => err.field)
+              )
+            );
+          } else {
+            validRecords.push(record);
+            validRowNumbers.push(rowNumber);
+          }
+        });
+
+        let outcome: WriteOutcome = this.emptyOutcome();
+        try {
+          outcome = await this.writeRecords(
+            target,
+            validRecords,
+            validRowNumbers
+          );
+          batchFailures.push(...outcome.failedRecords);
         } catch (error) {
+          if (transaction) {
+            throw error;
+          }
           logger.error('Error processing batch:', error);
-          failedCount += batch.length;
+          validRecords.forEach((record, index) =>
+            batchFailures.push(
+              this.toFailedRecord(
+                record,
+                validRowNumbers[index],
+                (error as Error).message
+              )
+            )
+          );
+        }
+
+        insertedCount += outcome.inserted;
+        updatedCount += outcome.updated;
+        unchangedCount += outcome.unchanged;
+        successCount += outcome.inserted + outcome.updated + outcome.unchanged;
+        failedCount += batchFailures.length;
+        processedCount += batch.records.length;
+        throughput.record(batch.records.length);
+
+        for (const failure of batchFailures) {
+          logger.warn(`Row ${failure.rowNumber} failed: ${failure.error}`);
+        }
+        failedRecords.push(
+          ...batchFailures.slice(0, maxFailedRecords - failedRecords.length)
+        );
+        if (options.onFailedRows && batchFailures.length > 0) {
+          await options.onFailedRows(
+            batchFailures.map((failure) => ({ ...failure, sheetName })),
+            headers
+          );
         }
+
+        // Report progress
+        if (onProgress) {
+          const progress: JobProgress = {
+            total: totalRecords,
+            processed: processedCount,
+            failed: failedCount,
+            percentage: this.getPercentage(processedCount, totalRecords),
+            // The row count can be short of the rows actually read
+            currentBatch,
+            totalBatches: Math.max(totalBatches, currentBatch),
+            recordsPerSecond: throughput.recordsPerSecond,
+            estimatedTimeRemaining: throughput.estimateTimeRemaining(
+              totalRecords - processedCount
+            ),
+            lastUpdated: new Date(),
+          };
+          onProgress(progress);
+        }
+
+        logger.info(
+          `Batch processed: ${outcome.inserted} inserted, ${outcome.updated} updated, ${outcome.unchanged} unchanged, ${batchFailures.length} failed`
+        );
+
+        const breach = tracker.record(
+          batch.records.length,
+          outcome.inserted + outcome.updated,
+          batchFailures
+        );
+        if (breach) {
+          throw new ImportAbortedError(
+            `Import aborted: ${breach}; ${this.describePartialData(mode, tableName, tracker, transaction)}`
+          );
+        }
+
+        if (checkpointing && options.onCheckpoint) {
+          await options.onCheckpoint({
+            completedSheets: options.checkpoint?.completedSheets ?? [],
+            current: {
+              sheetName,
+              lastRowNumber: batch.rowNumbers[batch.rowNumbers.length - 1],
+              processedCount,
+              successCount,
+              insertedCount,
+              updatedCount,
+              unchangedCount,
+              failedCount,
+            },
+            failureTotals: tracker.totals,
+          });
+        }
+      }
+
+      if (mode === 'replace') {
+        await this.swapShadowTable(
+          target,
+          loadedColumns,
+          successCount,
+          failedCount
+        );
       }
 
       const duration = Date.now() - startTime;
       logger.info(`Import completed in ${duration}ms`, {
+        mode,
         successCount,
+        insertedCount,
+        updatedCount,
+        unchangedCount,
         failedCount,
         duration,
       });
 
-      return { successCount, failedCount, duration };
+      return {
+        successCount,
+        failedCount,
+        insertedCount,
+        updatedCount,
+        unchangedCount,
+        duration,
+        failedRecords,
+      };
     } catch (error) {
       logger.error('Import process failed:', error);
+      if (mode === 'replace') {
+        await dataRepository
+          .dropTable(loadTable)
+          .catch((dropError) =>
+            logger.warn('Failed to drop shadow table:', dropError)
+          );
+      }
       throw error;
     }
   }
 
+  /**
+   * Import several sheets of one workbook, each into its own table
+   * Sheets run in the declared order and the first sheet that fails
+   * stops the job, since later sheets may reference earlier ones
+   */
+  async processWorkbook(
+    filePath: string,
+    sheets: SheetImportConfig[],
+    onProgress?: (progress: JobProgress) => void,
+    jobOptions: JobImportOptions = {}
+  ): Promise<ImportResult & { sheets: SheetCompletionResult[] }> {
+    const startTime = Date.now();
+
+    // Fail fast before any sheet is loaded
+    for (const sheet of sheets) {
+      const tableExists = await dataRepository.tableExists(sheet.tableName);
+      if (!tableExists) {
+        throw new Error(
+          `Table ${sheet.tableName} for sheet ${sheet.sheetName} does not exist`
+        );
+      }
+    }
+
+    const sheetProgress: SheetProgress[] = [];
+    for (const sheet of sheets) {
+      const total = await fileReaderService.getRowCount(filePath, {
+        sheetName: sheet.sheetName,
+        skipRows: sheet.skipRows,
+      });
+      sheetProgress.push({
+        sheetName: sheet.sheetName,
+        tableName: sheet.tableName,
+        status: 'pending',
+        total,
+        processed: 0,
+        failed: 0,
+        percentage: 0,
+      });
+    }
+
+    const total = sheetProgress.reduce((sum, sheet) => sum + sheet.total, 0);
+    // Batches are counted across sheets, so the job reads batch n of m
+    const sheetBatches = sheetProgress.map((sheet) => ({
+      current: 0,
+      total: fileReaderService.getBatchCount(filePath, sheet.total),
+    }));
+    const throughput = new ThroughputTracker();
+    const reportProgress = (currentSheet: string) => {
+      if (!onProgress) {
+        return;
+      }
+      const processed = sheetProgress.reduce((sum, s) => sum + s.processed, 0);
+      onProgress({
+        total,
+        processed,
+        failed: sheetProgress.reduce((sum, s) => sum + s.failed, 0),
+        percentage: this.getPercentage(processed, total),
+        currentBatch: sheetBatches.reduce((sum, b) => sum + b.current, 0),
+        totalBatches: sheetBatches.reduce((sum, b) => sum + b.total, 0),
+        recordsPerSecond: throughput.recordsPerSecond,
+        estimatedTimeRemaining: throughput.estimateTimeRemaining(
+          total - processed
+        ),
+        lastUpdated: new Date(),
+        currentSheet,
+        sheets: sheetProgress.map((s) => ({ ...s })),
+      });
+    };
+
+    // A rolled back attempt wrote nothing, so there is nothing to resume
+    const checkpoint = jobOptions.atomic ? undefined : jobOptions.checkpoint;
+    const results: SheetCompletionResult[] = [
+      ...(checkpoint?.completedSheets ?? []),
+    ];
+    const failedRecords: FailedRecord[] = [];
+    const tracker = new FailureTracker(
+      this.resolvePolicy(jobOptions),
+      checkpoint?.failureTotals
+    );
+
+    const importSheets = async (transaction?: sql.Transaction) => {
+      for (const [index, sheet] of sheets.entries()) {
+        const progress = sheetProgress[index];
+        const batches = sheetBatches[index];
+        const completed = results.find(
+          (result) => result.sheetName === sheet.sheetName
+        );
+        if (completed) {
+          progress.status = 'completed';
+          progress.processed = progress.total;
+          progress.failed = completed.failedCount;
+          progress.percentage = 100;
+          batches.current = batches.total;
+          continue;
+        }
+
+        progress.status = 'processing';
+        reportProgress(sheet.sheetName);
+
+        try {
+          const result = await this.importRows(
+            filePath,
+            sheet.tableName,
+            {
+              ...jobOptions,
+              sheetName: sheet.sheetName,
+              skipRows: sheet.skipRows,
+              columnMapping: sheet.columnMapping,
+              mode: sheet.mode,
+              keyColumns: sheet.keyColumns,
+              totalRecords: progress.total,
+              checkpoint: {
+                completedSheets: results,
+                current: checkpoint?.current,
+                failureTotals: tracker.totals,
+              },
+            },
+            tracker,
+            throughput,
+            (sheetUpdate) => {
+              progress.processed = sheetUpdate.processed;
+              progress.failed = sheetUpdate.failed;
+              progress.percentage = sheetUpdate.percentage;
+              batches.current = sheetUpdate.currentBatch ?? 0;
+              batches.total = sheetUpdate.totalBatches ?? batches.total;
+              reportProgress(sheet.sheetName);
+            },
+            transaction
+          );
+
+          progress.status = 'completed';
+          reportProgress(sheet.sheetName);
+          const { failedRecords: sheetFailures = [], ...counts } = result;
+          failedRecords.push(
+            ...sheetFailures.slice(
+              0,
+              appConfig.job.maxFailedRecords - failedRecords.length
+            )
+          );
+          results.push({
+            sheetName: sheet.sheetName,
+            tableName: sheet.tableName,
+            ...counts,
+          });
+          if (!transaction && jobOptions.onCheckpoint) {
+            await jobOptions.onCheckpoint({
+              completedSheets: results,
+              failureTotals: tracker.totals,
+            });
+          }
+        } catch (error) {
+          progress.status = 'failed';
+          reportProgress(sheet.sheetName);
+          throw this.wrapError(error, `Sheet ${sheet.sheetName} failed`);
+        }
+      }
+    };
+
+    if (jobOptions.atomic) {
+      this.assertAtomicSize(total);
+      await this.runInTransaction(importSheets);
+    } else {
+      await importSheets();
+    }
+
+    const duration = Date.now() - startTime;
+    const sum = (count: (result: SheetCompletionResult) => number) =>
+      results.reduce((total, result) => total + count(result), 0);
+    const successCount = sum((r) => r.successCount);
+    const failedCount = sum((r) => r.failedCount);
+
+    logger.info(`Workbook import completed in ${duration}ms`, {
+      sheets: results.length,
+      successCount,
+      failedCount,
+    });
+
+    return {
+      successCount,
+      failedCount,
+      insertedCount: sum((r) => r.insertedCount),
+      updatedCount: sum((r) => r.updatedCount),
+      unchangedCount: sum((r) => r.unchangedCount),
+      duration,
+      recordsPerSecond: throughput.averageRecordsPerSecond,
+      failedRecords,
+      sheets: results,
+    };
+  }
+
+  /**
+   * Share of rows processed; an empty sheet or file counts as done
+   */
+  private getPercentage(processed: number, total: number): number {
+    if (total <= 0) {
+      return 100;
+    }
+    return Math.min(Math.round((processed / total) * 100), 100);
+  }
+
+  /**
+   * Write a batch through the TVP path; when SQL Server rejects it, split
+   * the batch in half and retry each half until the bad rows are isolated,
+   * finishing small chunks row by row
+   */
+  private async writeRecords(
+    target: WriteTarget,
+    records: ImportRecord[],
+    rowNumbers: number[]
+  ): Promise<WriteOutcome> {
+    if (records.length === 0) {
+      return this.emptyOutcome();
+    }
+
+    if (target.transaction) {
+      // A failed statement can doom the transaction, so nothing is retried
+      const result = await this.writeBatch(target, records);
+      return this.toWriteOutcome(result, records, rowNumbers);
+    }
+
+    try {
+      const result = await this.writeBatch(target, records);
+      return this.toWriteOutcome(result, records, rowNumbers);
+    } catch (error) {
+      if (records.length > appConfig.batch.bisectThreshold) {
+        logger.warn(
+          `Bulk write of rows ${rowNumbers[0]}-${rowNumbers[rowNumbers.length - 1]} failed, splitting batch: ${(error as Error).message}`
+        );
+        const middle = Math.ceil(records.length / 2);
+        const first = await this.writeRecords(
+          target,
+          records.slice(0, middle),
+          rowNumbers.slice(0, middle)
+        );
+        const second = await this.writeRecords(
+          target,
+          records.slice(middle),
+          rowNumbers.slice(middle)
+        );
+        return this.combineOutcomes([first, second]);
+      }
+    }
+
+    if (target.mode === 'upsert' || target.mode === 'update-only') {
+      // Merge each row on its own so one bad row cannot fail the others
+      const outcomes: WriteOutcome[] = [];
+      for (const [index, record] of records.entries()) {
+        try {
+          const result = await this.writeBatch(target, [record]);
+          outcomes.push(
+            this.toWriteOutcome(result, [record], [rowNumbers[index]])
+          );
+        } catch (error) {
+          outcomes.push({
+            ...this.emptyOutcome(),
+            failedRecords: [
+              this.toFailedRecord(
+                record,
+                rowNumbers[index],
+                (error as Error).message
+              ),
+            ],
+          });
+        }
+      }
+      return this.combineOutcomes(outcomes);
+    }
+
+    try {
+      const result = await dataRepository.bulkInsert(
+        target.loadTable,
+        records,
+        target.tableColumns,
+        target.columnMapping
+      );
+      return this.toWriteOutcome(result, records, rowNumbers);
+    } catch (error) {
+      // The whole transaction was lost, so none of these rows went in
+      return {
+        ...this.emptyOutcome(),
+        failedRecords: records.map((record, index) =>
+          this.toFailedRecord(
+            record,
+            rowNumbers[index],
+            (error as Error).message
+          )
+        ),
+      };
+    }
+  }
+
+  /**
+   * Run an import in one transaction, committing only if it completes
+   */
+  private async runInTransaction<T>(
+    work: (transaction: sql.Transaction) => Promise<T>
+  ): Promise<T> {
+    const transaction = await dataRepository.beginTransaction();
+
+    try {
+      const result = await work(transaction);
+      await transaction.commit();
+      logger.info('Atomic import committed');
+      return result;
+    } catch (error) {
+      await dataRepository.rollbackTransaction(transaction);
+      throw this.wrapError(error, 'Atomic import rolled back');
+    }
+  }
+
+  /**
+   * Prefix an error message, keeping aborts distinguishable from failures
+   * Cancelling and pausing are passed through as they are not the
+   * sheet's fault
+   */
+  private wrapError(error: unknown, prefix: string): Error {
+    if (
+      error instanceof ImportCancelledError ||
+      error instanceof ImportPausedError
+    ) {
+      return error;
+    }
+    const message = `${prefix}: ${(error as Error).message}`;
+    return error instanceof ImportAbortedError
+      ? new ImportAbortedError(message)
+      : new Error(message);
+  }
+
+  /**
+   * Atomic imports stop at the first failed row unless a policy is given
+   */
+  private resolvePolicy(options: JobImportOptions): FailurePolicy {
+    const { maxFailedRows, maxFailedPercentage, stopOnFirstError } = options;
+    const hasPolicy =
+      maxFailedRows !== undefined ||
+      maxFailedPercentage !== undefined ||
+      stopOnFirstError !== undefined;
+
+    return options.atomic && !hasPolicy
+      ? { stopOnFirstError: true }
+      : { maxFailedRows, maxFailedPercentage, stopOnFirstError };
+  }
+
+  /**
+   * What became of the rows written before an abort
+   */
+  private describePartialData(
+    mode: ImportMode,
+    tableName: string,
+    tracker: FailureTracker,
+    transaction?: sql.Transaction
+  ): string {
+    if (transaction) {
+      return 'nothing was committed';
+    }
+    if (mode === 'replace') {
+      return `${tableName} was left unchanged`;
+    }
+    return `${tracker.written} rows already written were kept`;
+  }
+
+  /**
+   * Refuse atomic imports large enough to strain the transaction log
+   */
+  private assertAtomicSize(totalRecords: number): void {
+    const { maxAtomicRows } = appConfig.batch;
+    if (totalRecords > maxAtomicRows) {
+      throw new Error(
+        `Atomic imports are limited to ${maxAtomicRows} rows; this import has ${totalRecords}`
+      );
+    }
+  }
+
+  /**
+   * Swap a fully loaded shadow table in for the target's contents
+   * Any failed row, an empty file or a swap that conflicts with a
+   * constraint leaves the target untouched; a retry would load the same
+   * file to the same end, so it aborts the job
+   */
+  private async swapShadowTable(
+    target: WriteTarget,
+    columns: string[],
+    successCount: number,
+    failedCount: number
+  ): Promise<void> {
+    if (failedCount > 0) {
+      throw new ImportAbortedError(
+        `Replace aborted: ${failedCount} rows failed to load; ${target.tableName} was left unchanged`
+      );
+    }
+    if (successCount === 0) {
+      throw new ImportAbortedError(
+        `Replace aborted: the file has no rows; ${target.tableName} was left unchanged`
+      );
+    }
+
+    try {
+      await dataRepository.replaceFromShadowTable(
+        target.tableName,
+        target.loadTable,
+        columns
+      );
+    } catch (error) {
+      // Rows still referenced by a foreign key cannot be deleted, and the
+      // same rows would be referenced on every retry
+      if ((error as { number?: number }).number === CONSTRAINT_CONFLICT) {
+        throw new ImportAbortedError(
+          `Replace aborted: ${(error as Error).message}; ${target.tableName} was left unchanged`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Shadow table for a replace import, named after the job so a retried
+   * attempt reuses the same name
+   */
+  private getShadowTableName(tableName: string, jobId?: string): string {
+    const suffix = (jobId ?? uuidv4()).replace(/-/g, '').slice(0, 12);
+    return `${tableName.slice(0, 100)}__import_${suffix}`;
+  }
+
+  /**
+   * Sheets a job wrote to according to its checkpoint, and the last file
+   * row written to each
+   */
+  private getWrittenParts(
+    job: JobData,
+    checkpoint: ImportCheckpoint
+  ): WrittenPart[] {
+    const { completedSheets, current } = checkpoint;
+
+    if (!job.sheets?.length) {
+      return current
+        ? [
+            {
+              sheetName: job.sheetName,
+              tableName: job.tableName,
+              columnMapping: job.columnMapping,
+              skipRows: job.skipRows,
+              lastRowNumber: current.lastRowNumber,
+            },
+          ]
+        : [];
+    }
+
+    return job.sheets.flatMap((sheet) => {
+      const completed = completedSheets.some(
+        (result) => result.sheetName === sheet.sheetName
+      );
+      const lastRowNumber = completed
+        ? Number.POSITIVE_INFINITY
+        : current?.sheetName === sheet.sheetName
+          ? current.lastRowNumber
+          : undefined;
+      return lastRowNumber === undefined ? [] : [{ ...sheet, lastRowNumber }];
+    });
+  }
+
+  /**
+   * Delete the written rows of one sheet, reading the file up to the last
+   * row the job wrote
+   */
+  private async deleteWrittenRows(
+    job: JobData,
+    part: WrittenPart,
+    failedRows: Set<number>,
+    transaction: sql.Transaction
+  ): Promise<number> {
+    const tableColumns = await dataRepository.getTableSchema(part.tableName);
+    const validator = new SchemaValidator(tableColumns, part.columnMapping);
+    let deleted = 0;
+
+    for await (const batch of fileReaderService.streamRows(job.filePath, {
+      sheetName: part.sheetName,
+      skipRows: part.skipRows,
+      csvOptions: job.csvOptions,
+    })) {
+      const reportColumns = batch.headers.filter((header) =>
+        validator.isReportColumn(header)
+      );
+      const records = batch.records.filter((_record, index) => {
+        const rowNumber = batch.rowNumbers[index];
+        return rowNumber <= part.lastRowNumber && !failedRows.has(rowNumber);
+      });
+      for (const record of records) {
+        for (const header of reportColumns) {
+          delete record[header];
+        }
+      }
+
+      deleted += await dataRepository.deleteMatchingRows(
+        part.tableName,
+        records,
+        tableColumns,
+        part.columnMapping,
+        transaction
+      );
+      if (batch.rowNumbers[batch.rowNumbers.length - 1] >= part.lastRowNumber) {
+        break;
+      }
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Position to resume from when the checkpoint belongs to this sheet
+   */
+  private getResumePosition(
+    checkpoint: ImportCheckpoint | undefined,
+    sheetName?: string
+  ): SheetCheckpoint | undefined {
+    const current = checkpoint?.current;
+    return current && current.sheetName === sheetName ? current : undefined;
+  }
+
+  /**
+   * Bulk insert or MERGE a batch, depending on the import mode
+   */
+  private writeBatch(
+    target: WriteTarget,
+    records: ImportRecord[]
+  ): Promise<BatchInsertResult> {
+    const {
+      tableName,
+      loadTable,
+      tableColumns,
+      columnMapping,
+      mode,
+      keyColumns,
+      transaction,
+    } = target;
+
+    return mode === 'insert' || mode === 'replace'
+      ? dataRepository.bulkInsertWithTVP(
+          loadTable,
+          records,
+          tableColumns,
+          columnMapping,
+          transaction
+        )
+      : dataRepository.mergeWithTVP(
+          tableName,
+          records,
+          tableColumns,
+          keyColumns,
+          mode,
+          columnMapping,
+          transaction
+        );
+  }
+
+  /**
+   * Translate the batch-relative row errors of a write into file rows
+   */
+  private toWriteOutcome(
+    result: BatchInsertResult,
+    records: ImportRecord[],
+    rowNumbers: number[]
+  ): WriteOutcome {
+    return {
+      inserted: result.inserted,
+      updated: result.updated ?? 0,
+      unchanged: result.unchanged ?? 0,
+      failedRecords: result.errors.map(({ row, error }) =>
+        this.toFailedRecord(records[row - 1], rowNumbers[row - 1], error)
+      ),
+    };
+  }
+
+  private combineOutcomes(outcomes: WriteOutcome[]): WriteOutcome {
+    return outcomes.reduce(
+      (total, outcome) => ({
+        inserted: total.inserted + outcome.inserted,
+        updated: total.updated + outcome.updated,
+        unchanged: total.unchanged + outcome.unchanged,
+        failedRecords: [...total.failedRecords, ...outcome.failedRecords],
+      }),
+      this.emptyOutcome()
+    );
+  }
+
+  private emptyOutcome(): WriteOutcome {
+    return { inserted: 0, updated: 0, unchanged: 0, failedRecords: [] };
+  }
+
+  private toFailedRecord(
+    record: ImportRecord,
+    rowNumber: number,
+    error: string,
+    columns?: string[]
+  ): FailedRecord {
+    return { rowNumber, data: record, error, columns, timestamp: new Date() };
+  }
+
+  /**
+   * Validate every sheet of a multi-sheet import without inserting
+   */
+  async validateWorkbook(
+    filePath: string,
+    sheets: SheetImportConfig[]
+  ): Promise<ImportValidationResult> {
+    const errors: ValidationError[] = [];
+    let rowCount = 0;
+    let invalidRowCount = 0;
+
+    for (const sheet of sheets) {
+      const validation = await this.validateImport(filePath, sheet.tableName, {
+        sheetName: sheet.sheetName,
+        skipRows: sheet.skipRows,
+        columnMapping: sheet.columnMapping,
+        mode: sheet.mode,
+        keyColumns: sheet.keyColumns,
+      });
+
+      rowCount += validation.rowCount;
+      invalidRowCount += validation.invalidRowCount;
+      for (const err of validation.errors) {
+        errors.push({ ...err, sheet: sheet.sheetName });
+      }
+    }
+
+    return { isValid: errors.length === 0, errors, rowCount, invalidRowCount };
+  }
+
   /**
    * Validate import without inserting
+   * Every row is checked against the target table's column metadata;
+   * the error list is capped, the invalid row count is not
    */
   async validateImport(
     filePath: string,
     tableName: string,
-    sheetName?: string,
-    skipRows: number = 0
-  ): Promise<{ isValid: boolean; errors: string[]; rowCount: number }> {
-    const errors: string[] = [];
+    options: ImportOptions = {}
+  ): Promise<ImportValidationResult> {
+    const { maxErrors } = appConfig.validation;
+    const errors: ValidationError[] = [];
 
     try {
       // Check table exists
       const tableExists = await dataRepository.tableExists(tableName);
       if (!tableExists) {
-        errors.push(`Table ${tableName} does not exist`);
+        return {
+          isValid: false,
+          errors: [
+            {
+              field: 'tableName',
+              message: `Table ${tableName} does not exist`,
+            },
+          ],
+          rowCount: 0,
+          invalidRowCount: 0,
+        };
       }
 
-      // Get table columns
-      let requiredColumns: string[] = [];
-      if (tableExists) {
-        requiredColumns = await dataRepository.getTableColumns(tableName);
+      // Validate file structure
+      const structure = await fileReaderService.validateStructure(
+        filePath,
+        [],
+        options
+      );
+      if (!structure.isValid) {
+        return {
+          isValid: false,
+          errors: structure.errors,
+          rowCount: structure.rowCount,
+          invalidRowCount: 0,
+        };
       }
 
-      // Validate Excel structure
-      const validation = await excelService.validateExcel(
-        filePath,
-        requiredColumns,
-        sheetName,
-        skipRows
+      const validator = new SchemaValidator(
+        await dataRepository.getTableSchema(tableName),
+        options.columnMapping,
+        options.keyColumns,
+        options.mode
       );
 
-      if (!validation.isValid) {
-        for (const err of validation.errors) {
-          errors.push(err.message);
-        }
+      // Every row would fail when the headers do not fit the table
+      errors.push(...validator.validateHeaders(structure.columns));
+      if (errors.length > 0) {
+        return {
+          isValid: false,
+          errors,
+          rowCount: structure.rowCount,
+          invalidRowCount: structure.rowCount,
+        };
+      }
+
+      let invalidRowCount = 0;
+      for await (const batch of fileReaderService.streamRows(
+        filePath,
+        options
+      )) {
+        batch.records.forEach((record, index) => {
+          const rowErrors = validator.validateRecord(
+            record,
+            batch.rowNumbers[index],
+            batch.headers
+          );
+          if (rowErrors.length > 0) {
+            invalidRowCount++;
+            errors.push(...rowErrors.slice(0, maxErrors - errors.length));
+          }
+        });
       }
 
       return {
-        isValid: errors.length === 0,
+        isValid: invalidRowCount === 0,
         errors,
-        rowCount: validation.rowCount,
+        rowCount: structure.rowCount,
+        invalidRowCount,
       };
     } catch (error) {
       logger.error('Validation failed:', error);
       return {
         isValid: false,
-        errors: [`Validation error: ${(error as Error).message}`],
+        errors: [
+          {
+            field: 'file',
+            message: `Validation error: ${(error as Error).message}`,
+          },
+        ],
         rowCount: 0,
+        invalidRowCount: 0,
       };
     }
   }
@@ -0,0 +1,263 @@
+import { QueueEvents } from 'bullmq';
+import { queueConfig, redisConnection } from '../config/queue.config';
+import jobControlRepository from '../repositories/job-control.repository';
+import { JobCompletionResult, JobProgress, JobStatus } from '../types';
+import logger from '../utils/logger';
+
+/**
+ * A job event as pushed to clients, identified by its Redis stream ID
+ */
+export type JobStreamEvent =
+  | { id: string; type: 'progress'; data: JobProgress }
+  | {
+      id: string;
+      type: 'state';
+      data: { status: JobStatus; event: string; error?: string };
+    }
+  | { id: string; type: 'completed'; data: JobCompletionResult };
+
+/**
+ * Receives a job's events until it unsubscribes or the service closes
+ */
+export interface JobEventSubscriber {
+  onEvent(event: JobStreamEvent): void;
+  onClose(): void;
+}
+
+// BullMQ events that move a job between states
+const STATE_EVENTS = ['waiting', 'active', 'delayed', 'stalled', 'failed'];
+
+// Stream entries read per XRANGE call when replaying
+const REPLAY_CHUNK_SIZE = 1000;
+
+/**
+ * Relays a job's progress, state changes and result from the BullMQ
+ * events stream, which every API instance reads, so clients can follow a
+ * job whichever instance they are connected to
+ * Stream IDs double as event IDs, so a reconnecting client can replay
+ * what it missed while the stream still holds it
+ */
+class JobEventsService {
+  private queueEvents?: QueueEvents;
+  private readonly subscribers = new Set<JobEventSubscriber>();
+
+  /**
+   * Pass every event of a job to the subscriber, starting after
+   * lastEventId if given; returns a function that stops listening
+   */
+  async subscribe(
+    jobId: string,
+    subscriber: JobEventSubscriber,
+    lastEventId?: string
+  ): Promise<() => void> {
+    const queueEvents = this.getQueueEvents();
+    let lastSentId = lastEventId;
+    let buffered: JobStreamEvent[] | null = lastEventId ? [] : null;
+
+    const deliver = (event: JobStreamEvent) => {
+      if (lastSentId && compareStreamIds(event.id, lastSentId) <= 0) {
+        return;
+      }
+      lastSentId = event.id;
+      subscriber.onEvent(event);
+    };
+
+    // Events are mapped one at a time so an event whose status needs a
+    // flag lookup is not overtaken by the next one; live events arriving
+    // while the backlog is replayed wait their turn
+    let queue = Promise.resolve();
+    const handlers = new Map<string, (...args: unknown[]) => void>();
+    for (const name of [...STATE_EVENTS, 'progress', 'completed']) {
+      const handler = (args: unknown, id: unknown) => {
+        queue = queue
+          .then(() =>
+            this.toJobEvent(name, args as Record<string, unknown>, id as string)
+          )
+          .then((event) => {
+            if (buffered) {
+              buffered.push(event);
+            } else {
+              deliver(event);
+            }
+          })
+          .catch((error) => {
+            logger.warn(`Event ${name} of job ${jobId} not relayed`, {
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          });
+      };
+      handlers.set(`${name}:${jobId}`, handler);
+      queueEvents.on(`${name}:${jobId}` as 'waiting', handler);
+    }
+
+    const unsubscribe = () => {
+      for (const [name, handler] of handlers) {
+        queueEvents.off(name as 'waiting', handler);
+      }
+      this.subscribers.delete(subscriber);
+    };
+    this.subscribers.add(subscriber);
+
+    if (lastEventId) {
+      try {
+        for await (const event of this.replay(jobId, lastEventId)) {
+          deliver(event);
+        }
+      } catch (error) {
+        unsubscribe();
+        throw error;
+      }
+      await queue;
+      const pending = buffered ?? [];
+      buffered = null;
+      pending.forEach(deliver);
+    }
+
+    return unsubscribe;
+  }
+
+  /**
+   * Close every subscription and stop reading the events stream
+   */
+  async close(): Promise<void> {
+    for (const subscriber of [...this.subscribers]) {
+      subscriber.onClose();
+    }
+    this.subscribers.clear();
+    await this.queueEvents?.close();
+    this.queueEvents = undefined;
+  }
+
+  /**
+   * One QueueEvents reader per process, shared by every subscriber
+   */
+  private getQueueEvents(): QueueEvents {
+    if (!this.queueEvents) {
+      this.queueEvents = new QueueEvents(queueConfig.name, {
+        connection: redisConnection,
+      });
+      // Each connected client adds a listener per event type
+      this.queueEvents.setMaxListeners(0);
+      this.queueEvents.on('error', (error) => {
+        logger.error('Queue events error:', error);
+      });
+    }
+    return this.queueEvents;
+  }
+
+  /**
+   * Events of a job recorded in the stream after the given ID
+   */
+  private async *replay(
+    jobId: string,
+    afterId: string
+  ): AsyncGenerator<JobStreamEvent, void, unknown> {
+    const key = this.getQueueEvents().keys.events;
+    let start = `(${afterId}`;
+
+    for (;;) {
+      const entries = await redisConnection.xrange(
+        key,
+        start,
+        '+',
+        'COUNT',
+        REPLAY_CHUNK_SIZE
+      );
+      for (const [id, fields] of entries) {
+        const { event, ...args } = toObject(fields);
+        if (args.jobId !== jobId || !isRelayed(event)) {
+          continue;
+        }
+        if (event === 'progress') {
+          args.data = JSON.parse(args.data as string);
+        } else if (event === 'completed') {
+          args.returnvalue = JSON.parse(args.returnvalue as string);
+        }
+        yield await this.toJobEvent(event, args, id);
+      }
+      if (entries.length < REPLAY_CHUNK_SIZE) {
+        return;
+      }
+      start = `(${entries[entries.length - 1][0]}`;
+    }
+  }
+
+  /**
+   * Map a BullMQ event to the event pushed to clients
+   * Cancelled jobs fail and paused jobs are delayed, so their flags decide
+   * the status reported
+   */
+  private async toJobEvent(
+    name: string,
+    args: Record<string, unknown>,
+    id: string
+  ): Promise<JobStreamEvent> {
+    if (name === 'progress') {
+      return { id, type: 'progress', data: args.data as JobProgress };
+    }
+    if (name === 'completed') {
+      return {
+        id,
+        type: 'completed',
+        data: args.returnvalue as JobCompletionResult,
+      };
+    }
+
+    const jobId = args.jobId as string;
+    let status: JobStatus;
+    switch (name) {
+      case 'active':
+        status = JobStatus.PROCESSING;
+        break;
+      case 'failed':
+        status = (await jobControlRepository.isCancelRequested(jobId))
+          ? JobStatus.CANCELLED
+          : JobStatus.FAILED;
+        break;
+      case 'delayed':
+        status = (await jobControlRepository.isPauseRequested(jobId))
+          ? JobStatus.PAUSED
+          : JobStatus.DELAYED;
+        break;
+      default:
+        status = JobStatus.PENDING;
+    }
+
+    return {
+      id,
+      type: 'state',
+      data: {
+        status,
+        event: name,
+        error: name === 'failed' ? (args.failedReason as string) : undefined,
+      },
+    };
+  }
+}
+
+function isRelayed(event: unknown): event is string {
+  return (
+    event === 'progress' ||
+    event === 'completed' ||
+    STATE_EVENTS.includes(event as string)
+  );
+}
+
+function toObject(fields: string[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (let i = 0; i < fields.length; i += 2) {
+    result[fields[i]] = fields[i + 1];
+  }
+  return result;
+}
+
+/**
+ * Order Redis stream IDs ("<ms>-<seq>")
+ */
+function compareStreamIds(a: string, b: string): number {
+  const [aMs, aSeq = '0'] = a.split('-');
+  const [bMs, bSeq = '0'] = b.split('-');
+  return Number(aMs) - Number(bMs) || Number(aSeq) - Number(bSeq);
+}
+
+export default new JobEventsService();
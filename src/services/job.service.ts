@@ -1,35 +1,98 @@
 import { Queue } from 'bullmq';
+import { appConfig } from '../config/app.config';
 import { queueConfig, queueOptions } from '../config/queue.config';
-import { JobData, JobProgress, JobResult, JobStatus } from '../types';
+import jobControlRepository from '../repositories/job-control.repository';
+import jobHistoryRepository from '../repositories/job-history.repository';
+import jobLogRepository from '../repositories/job-log.repository';
+import importService from './import.service';
+import {
+  JobData,
+  JobFilterOptions,
+  JobHistoryPage,
+  JobLog,
+  JobLogFilter,
+  JobLogPage,
+  JobOptions,
+  JobPriority,
+  JobProgress,
+  JobResult,
+  JobStatistics,
+  JobStatisticsFilter,
+  JobStatus,
+  QueueHealth,
+} from '../types';
 import logger from '../utils/logger';
 
+// Lower is more severe; a level filter keeps it and everything above
+const LOG_SEVERITY: Record<JobLog['level'], number> = {
+  error: 0,
+  warn: 1,
+  info: 2,
+  debug: 3,
+};
+
+// BullMQ runs lower priority numbers first; JobPriority ranks higher first
+const toQueuePriority = (priority: JobPriority): number =>
+  JobPriority.CRITICAL + 1 - priority;
+
 class JobService {
-  private readonly queue: Queue;
+  private readonly queue: Queue<JobData>;
 
   constructor() {
-    this.queue = new Queue(queueConfig.name, queueOptions);
+    this.queue = new Queue<JobData>(queueConfig.name, queueOptions);
     this.setupEventListeners();
   }
 
   /**
    * Add job to queue
+   * Unset options fall back to the queue defaults; every job gets a
+   * priority, since BullMQ runs jobs without one ahead of all others
    */
-  async addJob(jobData: JobData): Promise<string> {
+  async addJob(jobData: JobData, options: JobOptions = {}): Promise<string> {
     try {
-      const job = await this.queue.add('import-excel', jobData, {
-        jobId: jobData.jobId,
-        removeOnComplete: false,
-        removeOnFail: false,
-      });
+      const {
+        priority = JobPriority.NORMAL,
+        delay,
+        attempts,
+        backoff,
+        timeout,
+      } = options;
+      const job = await this.queue.add(
+        'import-excel',
+        { ...jobData, priority, timeout },
+        {
+          jobId: jobData.jobId,
+          priority: toQueuePriority(priority),
+          ...(delay ? { delay } : {}),
+          ...(attempts ? { attempts } : {}),
+          ...(backoff ? { backoff } : {}),
+          removeOnComplete: false,
+          removeOnFail: false,
+        }
+      );
 
       if (!job.id) {
         throw new Error('Job ID is undefined');
       }
 
       logger.info(`Job ${jobData.jobId} added to queue`, {
+        jobId: jobData.jobId,
         correlationId: jobData.correlationId,
+        priority: JobPriority[priority],
+        delay,
+        attempts: job.opts.attempts,
       });
 
+      // The queue is the source of truth for running jobs; a job missing
+      // from the history is not worth failing the upload over
+      try {
+        await jobHistoryRepository.create(jobData);
+      } catch (error) {
+        logger.warn(`Job ${jobData.jobId} was not recorded in history`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
       return job.id;
     } catch (error) {
       logger.error('Failed to add job to queue:', error);
@@ -50,21 +113,7 @@ class JobService {
 
       const state = await job.getState();
       const progress = job.progress as JobProgress | undefined;
-
-      let status: JobStatus;
-      switch (state) {
-        case 'active':
-          status = JobStatus.PROCESSING;
-          break;
-        case 'completed':
-          status = JobStatus.COMPLETED;
-          break;
-        case 'failed':
-          status = JobStatus.FAILED;
-          break;
-        default:
-          status = JobStatus.PENDING;
-      }
+      const status = await this.resolveStatus(job.id, state);
 
       const result: JobResult = {
         jobId: job.id,
@@ -77,6 +126,10 @@ class JobService {
         },
         startedAt: job.processedOn ? new Date(job.processedOn) : undefined,
         completedAt: job.finishedOn ? new Date(job.finishedOn) : undefined,
+        parentJobId: job.data.parentJobId,
+        priority: job.data.priority,
+        attempts: job.attemptsMade,
+        maxAttempts: job.opts.attempts ?? 1,
       };
 
       if (state === 'completed' && job.returnvalue) {
@@ -94,121 +147,274 @@ class JobService {
     }
   }
 
+  /**
+   * Get the data a job was queued with
+   */
+  async getJobData(jobId: string): Promise<JobData | null> {
+    try {
+      const job = await this.queue.getJob(jobId);
+      return job?.data ?? null;
+    } catch (error) {
+      logger.error(`Failed to get job data for ${jobId}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Cancel job
+   * Running and queued jobs are flagged and stop before their next batch;
+   * the worker then fails them without retrying and removes the file.
+   * With rollback, the worker also deletes the rows the job inserted
+   * Returns why the job cannot be cancelled, or null once it is flagged
    */
-  async cancelJob(jobId: string): Promise<boolean> {
+  async cancelJob(
+    jobId: string,
+    options: { rollback?: boolean } = {}
+  ): Promise<string | null> {
+    const { rollback = false } = options;
+
     try {
       const job = await this.queue.getJob(jobId);
 
       if (!job) {
-        return false;
+        return `Job ${jobId} not found or cannot be cancelled`;
       }
 
       const state = await job.getState();
-      if (state === 'active' || state === 'waiting') {
-        await job.remove();
-        logger.info(`Job ${jobId} cancelled`);
-        return true;
+      if (state === 'completed' || state === 'failed' || state === 'unknown') {
+        return `Job ${jobId} not found or cannot be cancelled`;
+      }
+
+      if (rollback && !importService.canRollBack(job.data)) {
+        return 'Upsert and update-only imports, and workbooks with a replace sheet, cannot be rolled back; cancel without rollback instead';
+      }
+
+      await jobControlRepository.requestCancel(jobId, rollback);
+      // A job waiting out a retry backoff would only notice after the delay
+      if (state === 'delayed') {
+        await job.promote();
       }
 
-      return false;
+      logger.info(`Cancellation of job ${jobId} requested`, {
+        state,
+        rollback,
+      });
+      return null;
     } catch (error) {
       logger.error(`Failed to cancel job ${jobId}:`, error);
-      return false;
+      return `Job ${jobId} not found or cannot be cancelled`;
+    }
+  }
+
+  /**
+   * Pause a job at its next batch boundary
+   * Returns why the job cannot be paused, or null once it is flagged
+   */
+  async pauseJob(jobId: string): Promise<string | null> {
+    const job = await this.queue.getJob(jobId);
+    if (!job) {
+      return `Job ${jobId} not found`;
+    }
+
+    const state = await job.getState();
+    if (state === 'completed' || state === 'failed' || state === 'unknown') {
+      return `Job ${jobId} has already finished`;
+    }
+    if (!importService.isResumable(job.data)) {
+      return 'Atomic and replace imports cannot be paused because they cannot resume part-way';
     }
+
+    await jobControlRepository.requestPause(jobId);
+    logger.info(`Pause of job ${jobId} requested`, { state });
+    return null;
   }
 
   /**
-   * Get all jobs with their statuses
+   * Resume a paused job from its checkpoint
+   * Returns why the job cannot be resumed, or null once it is queued again
    */
-  async getAllJobs(
-    status?: 'pending' | 'active' | 'completed' | 'failed'
-  ): Promise<JobResult[]> {
+  async resumeJob(jobId: string): Promise<string | null> {
+    const job = await this.queue.getJob(jobId);
+    if (!job) {
+      return `Job ${jobId} not found`;
+    }
+
+    if (!(await jobControlRepository.clearPause(jobId))) {
+      return `Job ${jobId} is not paused`;
+    }
+
+    // A parked job waits in the delayed set until it is promoted
+    if ((await job.getState()) === 'delayed') {
+      await job.promote();
+    }
+
     try {
-      let jobs;
-
-      switch (status) {
-        case 'pending':
-          jobs = await this.queue.getWaiting();
-          break;
-        case 'active':
-          jobs = await this.queue.getActive();
-          break;
-        case 'completed':
-          jobs = await this.queue.getCompleted();
-          break;
-        case 'failed':
-          jobs = await this.queue.getFailed();
-          break;
-        default: {
-          const [waiting, active, completed, failed] = await Promise.all([
-            this.queue.getWaiting(),
-            this.queue.getActive(),
-            this.queue.getCompleted(),
-            this.queue.getFailed(),
-          ]);
-          jobs = [...waiting, ...active, ...completed, ...failed];
-          break;
-        }
-      }
+      await jobHistoryRepository.update(jobId, { status: JobStatus.PENDING });
+    } catch (error) {
+      logger.warn(`History of job ${jobId} not updated on resume`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    logger.info(`Job ${jobId} resumed`);
+    return null;
+  }
+
+  /**
+   * Pause the whole queue: no new jobs start and running jobs park at
+   * their next batch boundary; atomic and replace jobs run to the end
+   */
+  async pauseQueue(): Promise<void> {
+    await jobControlRepository.setQueuePaused(true);
+    await this.queue.pause();
+    logger.info(`Queue ${queueConfig.name} paused`);
+  }
+
+  /**
+   * Resume the whole queue; parked jobs continue from their checkpoints
+   */
+  async resumeQueue(): Promise<void> {
+    await jobControlRepository.setQueuePaused(false);
+    await this.queue.resume();
+    logger.info(`Queue ${queueConfig.name} resumed`);
+  }
+
+  /**
+   * Check whether the whole queue is paused
+   */
+  async isQueuePaused(): Promise<boolean> {
+    return this.queue.isPaused();
+  }
 
-      const results = await Promise.all(
-        jobs
-          .filter((job) => job.id !== undefined)
-          .map(async (job) => {
-            const state = await job.getState();
-            const progress = job.progress as JobProgress | undefined;
-
-            let jobStatus: JobStatus;
-            switch (state) {
-              case 'active':
-                jobStatus = JobStatus.PROCESSING;
-                break;
-              case 'completed':
-                jobStatus = JobStatus.COMPLETED;
-                break;
-              case 'failed':
-                jobStatus = JobStatus.FAILED;
-                break;
-              default:
-                jobStatus = JobStatus.PENDING;
-            }
-
-            const result: JobResult = {
-              jobId: job.id as string,
-              status: jobStatus,
-              progress: progress || {
-                total: 0,
-                processed: 0,
-                failed: 0,
-                percentage: 0,
-              },
-              startedAt: job.processedOn
-                ? new Date(job.processedOn)
-                : undefined,
-              completedAt: job.finishedOn
-                ? new Date(job.finishedOn)
-                : undefined,
-            };
-
-            if (state === 'completed' && job.returnvalue) {
-              result.result = job.returnvalue;
-            }
-
-            if (state === 'failed' && job.failedReason) {
-              result.error = job.failedReason;
-            }
-
-            return result;
-          })
+  /**
+   * Count jobs in every queue state and check the backlog against the
+   * configured thresholds
+   * A paused queue is expected to build a backlog, so only its workers
+   * are checked
+   */
+  async getQueueHealth(): Promise<QueueHealth> {
+    const { maxWaitingJobs, maxWaitingAgeMs, minWorkers } =
+      appConfig.queueHealth;
+
+    const [counts, workersCount, isPaused, oldestWaiting] = await Promise.all([
+      this.queue.getJobCounts(
+        'active',
+        'waiting',
+        'prioritized',
+        'waiting-children',
+        'delayed',
+        'paused',
+        'completed',
+        'failed'
+      ),
+      this.queue.getWorkersCount(),
+      this.queue.isPaused(),
+      // Prioritized jobs are ordered by priority, not age
+      this.queue.getJobs('waiting', 0, 0, true),
+    ]);
+
+    const waitingJobs = counts.waiting + counts.prioritized;
+    const oldestWaitingAge = oldestWaiting[0]
+      ? Date.now() - oldestWaiting[0].timestamp
+      : undefined;
+
+    const issues: string[] = [];
+    if (workersCount < minWorkers) {
+      issues.push(
+        `${workersCount} workers connected; at least ${minWorkers} expected`
+      );
+    }
+    if (!isPaused && waitingJobs > maxWaitingJobs) {
+      issues.push(`${waitingJobs} jobs waiting; limit is ${maxWaitingJobs}`);
+    }
+    if (
+      !isPaused &&
+      oldestWaitingAge !== undefined &&
+      oldestWaitingAge > maxWaitingAgeMs
+    ) {
+      issues.push(
+        `Oldest waiting job queued ${Math.round(oldestWaitingAge / 1000)}s ago; limit is ${Math.round(maxWaitingAgeMs / 1000)}s`
       );
+    }
 
-      return results;
-    } catch (error) {
-      logger.error('Failed to get all jobs:', error);
-      return [];
+    return {
+      isHealthy: issues.length === 0,
+      activeJobs: counts.active,
+      waitingJobs: counts.waiting,
+      completedJobs: counts.completed,
+      failedJobs: counts.failed,
+      delayedJobs: counts.delayed,
+      pausedJobs: counts.paused,
+      prioritizedJobs: counts.prioritized,
+      waitingChildrenJobs: counts['waiting-children'],
+      oldestWaitingAge,
+      workersCount,
+      isPaused,
+      issues,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Find jobs in the history, including those no longer kept in the queue
+   */
+  async findJobs(filter: JobFilterOptions): Promise<JobHistoryPage> {
+    return jobHistoryRepository.find(filter);
+  }
+
+  /**
+   * Read a page of a job's log, keeping entries at or above a level
+   */
+  async getJobLogs(jobId: string, filter: JobLogFilter): Promise<JobLogPage> {
+    const { level = 'debug', limit = 100, offset = 0 } = filter;
+    const logs = (await jobLogRepository.list(jobId)).filter(
+      (entry) => LOG_SEVERITY[entry.level] <= LOG_SEVERITY[level]
+    );
+
+    return {
+      logs: logs.slice(offset, offset + limit),
+      total: logs.length,
+      limit,
+      offset,
+    };
+  }
+
+  /**
+   * Aggregate counts, timings and success rate over the job history
+   */
+  async getStatistics(filter: JobStatisticsFilter): Promise<JobStatistics> {
+    return jobHistoryRepository.getStatistics(filter);
+  }
+
+  /**
+   * Map a queue state to a job status
+   * A job flagged for cancellation reports cancelled once it has stopped,
+   * or straight away if it never started; a job waiting on a pause flag
+   * or a paused queue reports paused
+   */
+  private async resolveStatus(
+    jobId: string,
+    state: string
+  ): Promise<JobStatus> {
+    if (state === 'active') {
+      return JobStatus.PROCESSING;
+    }
+    if (state === 'completed') {
+      return JobStatus.COMPLETED;
+    }
+    if (await jobControlRepository.isCancelRequested(jobId)) {
+      return JobStatus.CANCELLED;
+    }
+    if (state === 'failed') {
+      return JobStatus.FAILED;
+    }
+    if (
+      (await jobControlRepository.isPauseRequested(jobId)) ||
+      (await jobControlRepository.isQueuePaused())
+    ) {
+      return JobStatus.PAUSED;
     }
+    return JobStatus.PENDING;
   }
 
   /**
@@ -0,0 +1,353 @@
+import { Job, Queue, UnrecoverableError } from 'bullmq';
+import { createHmac } from 'node:crypto';
+import { lookup } from 'node:dns';
+import { LookupFunction } from 'node:net';
+import { Agent, fetch } from 'undici';
+import { v4 as uuidv4 } from 'uuid';
+import { appConfig } from '../config/app.config';
+import { queueConfig, redisConnection } from '../config/queue.config';
+import webhookDeliveryRepository from '../repositories/webhook-delivery.repository';
+import {
+  JobData,
+  JobEvent,
+  Metadata,
+  WebhookConfig,
+  WebhookDeadLetter,
+  WebhookDelivery,
+  WebhookEventType,
+} from '../types';
+import {
+  isLocalHostname,
+  isNonPublicAddress,
+  normalizeHostname,
+} from '../utils/address.util';
+import logger from '../utils/logger';
+
+/**
+ * Data of a webhook delivery job
+ */
+export interface WebhookJobData {
+  deliveryId: string;
+  jobId: string;
+  url: string;
+  event: JobEvent;
+}
+
+export const webhookQueueName = `${queueConfig.name}-webhooks`;
+
+// Client errors worth retrying; any other 4xx fails the delivery at once
+const RETRYABLE_STATUSES = new Set([408, 429]);
+
+/**
+ * Resolve a webhook host for the connection itself and refuse non-public
+ * addresses unless the host is allowlisted, so a name cannot be repointed
+ * between the check and the request
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, options, (error, address, family) => {
+    const host = normalizeHostname(hostname);
+    const blocked =
+      error || appConfig.webhook.allowedPrivateHosts.includes(host)
+        ? undefined
+        : [address]
+            .flat()
+            .map((resolved) =>
+              typeof resolved === 'string' ? resolved : resolved.address
+            )
+            .find((resolved) => isNonPublicAddress(resolved));
+    if (blocked) {
+      callback(
+        new UnrecoverableError(
+          `Webhook host ${host} is a private or local address (${blocked})`
+        ),
+        address,
+        family
+      );
+      return;
+    }
+    callback(error, address, family);
+  });
+};
+
+const dispatcher = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+/**
+ * Sends job events to the webhook registered with an upload
+ * Deliveries go through their own queue, so a slow or failing receiver
+ * never holds up an import; each body is signed with HMAC-SHA256 in the
+ * X-Signature-256 header
+ */
+class WebhookService {
+  private queue?: Queue<WebhookJobData>;
+
+  /**
+   * Check whether a signing secret is configured
+   */
+  isEnabled(): boolean {
+    return appConfig.webhook.secret !== '';
+  }
+
+  /**
+   * Queue an event for the job's webhook if it asked for this event type
+   * The key names the event within the job, so an event a retried import
+   * reaches again is not sent twice
+   */
+  async notify(
+    jobData: Pick<JobData, 'jobId' | 'callback'>,
+    eventType: WebhookEventType,
+    details: { data?: Metadata; error?: string } = {},
+    key: string = eventType
+  ): Promise<void> {
+    const { jobId, callback } = jobData;
+    if (!callback?.events.includes(eventType)) {
+      return;
+    }
+
+    await this.enqueue({
+      deliveryId: `${jobId}-${key}`,
+      jobId,
+      url: callback.url,
+      event: {
+        jobId,
+        eventType,
+        timestamp: new Date(),
+        ...details,
+      },
+    });
+  }
+
+  /**
+   * Progress milestones a job has reached, lowest first
+   */
+  getReachedMilestones(
+    callback: WebhookConfig | undefined,
+    percentage: number
+  ): number[] {
+    if (!callback?.events.includes('progress')) {
+      return [];
+    }
+    return (callback.progressMilestones ?? [])
+      .filter((milestone) => milestone <= percentage)
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Every delivery of a job with its attempts
+   */
+  async listDeliveries(jobId: string): Promise<WebhookDelivery[]> {
+    return webhookDeliveryRepository.list(jobId);
+  }
+
+  /**
+   * Most recent deliveries that ran out of attempts
+   */
+  async listDeadLetters(limit: number): Promise<WebhookDeadLetter[]> {
+    return webhookDeliveryRepository.listDeadLetters(limit);
+  }
+
+  /**
+   * Send a delivery's event again as a new delivery
+   * Returns null if the job has no such delivery
+   */
+  async redeliver(
+    jobId: string,
+    deliveryId: string
+  ): Promise<WebhookDelivery | null> {
+    const original = await webhookDeliveryRepository.get(jobId, deliveryId);
+    if (!original) {
+      return null;
+    }
+
+    return this.enqueue(
+      {
+        deliveryId: uuidv4(),
+        jobId,
+        url: original.url,
+        event: original.event,
+      },
+      original.deliveryId
+    );
+  }
+
+  /**
+   * POST an event to its webhook; run by the webhook worker for every
+   * attempt, which BullMQ retries with exponential backoff
+   */
+  async deliver(job: Job<WebhookJobData>): Promise<void> {
+    const { deliveryId, jobId, url, event } = job.data;
+    const body = JSON.stringify(event);
+    const attempt = job.attemptsMade + 1;
+    const attemptedAt = new Date();
+
+    let statusCode: number | undefined;
+    let error: Error | undefined;
+    try {
+      this.assertPublicHost(url);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': appConfig.appName,
+          'X-Signature-256': this.sign(body),
+          'X-Webhook-Event': event.eventType,
+          'X-Webhook-Delivery': deliveryId,
+        },
+        body,
+        redirect: 'manual', // A redirect could lead past the host check
+        signal: AbortSignal.timeout(appConfig.webhook.timeoutMs),
+        dispatcher,
+      });
+      statusCode = response.status;
+      await response.body?.cancel();
+
+      if (!response.ok) {
+        const message = `Webhook responded with HTTP ${response.status}`;
+        error =
+          response.status >= 500 || RETRYABLE_STATUSES.has(response.status)
+            ? new Error(message)
+            : new UnrecoverableError(message);
+      }
+    } catch (requestError) {
+      // fetch wraps connection errors, a refused address among them
+      const cause = (requestError as { cause?: unknown }).cause;
+      error =
+        cause instanceof UnrecoverableError
+          ? cause
+          : requestError instanceof Error
+            ? requestError
+            : new Error(String(requestError));
+    }
+
+    const final =
+      !error ||
+      error instanceof UnrecoverableError ||
+      attempt >= (job.opts.attempts ?? 1);
+    await webhookDeliveryRepository.recordAttempt(
+      jobId,
+      deliveryId,
+      {
+        attempt,
+        attemptedAt,
+        statusCode,
+        error: error?.message,
+        duration: Date.now() - attemptedAt.getTime(),
+      },
+      !error ? 'delivered' : final ? 'failed' : 'pending'
+    );
+
+    if (!error) {
+      logger.info(`Webhook ${deliveryId} delivered`, {
+        jobId,
+        eventType: event.eventType,
+        attempt,
+      });
+      return;
+    }
+
+    if (final) {
+      await webhookDeliveryRepository.addDeadLetter({
+        deliveryId,
+        jobId,
+        url,
+        eventType: event.eventType,
+        error: error.message,
+        failedAt: new Date(),
+      });
+      logger.warn(`Webhook ${deliveryId} could not be delivered`, {
+        jobId,
+        attempt,
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+
+  /**
+   * Close the delivery queue
+   */
+  async close(): Promise<void> {
+    await this.queue?.close();
+    this.queue = undefined;
+  }
+
+  /**
+   * Record a delivery and queue its first attempt
+   * A delivery already recorded is left as it is
+   */
+  private async enqueue(
+    data: WebhookJobData,
+    redeliveryOf?: string
+  ): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      ...data,
+      status: 'pending',
+      attempts: [],
+      createdAt: new Date(),
+      redeliveryOf,
+    };
+
+    if (!(await webhookDeliveryRepository.create(delivery))) {
+      return delivery;
+    }
+
+    await this.getQueue().add('deliver', data, { jobId: data.deliveryId });
+    logger.info(`Webhook ${data.deliveryId} queued`, {
+      jobId: data.jobId,
+      eventType: data.event.eventType,
+      redeliveryOf,
+    });
+    return delivery;
+  }
+
+  /**
+   * Refuse a URL whose host is local by name or a non-public IP literal,
+   * unless it is allowlisted; IP literals are connected to without a
+   * lookup, and other names are checked as the connection resolves them
+   */
+  private assertPublicHost(url: string): void {
+    const hostname = normalizeHostname(new URL(url).hostname);
+    if (
+      !appConfig.webhook.allowedPrivateHosts.includes(hostname) &&
+      isLocalHostname(hostname)
+    ) {
+      throw new UnrecoverableError(
+        `Webhook host ${hostname} is a private or local address (${hostname})`
+      );
+    }
+  }
+
+  /**
+   * Created on first use so processes that never send webhooks do not
+   * open the queue
+   */
+  private getQueue(): Queue<WebhookJobData> {
+    if (!this.queue) {
+      const retentionSeconds = appConfig.job.retentionDays * 24 * 60 * 60;
+      this.queue = new Queue<WebhookJobData>(webhookQueueName, {
+        connection: redisConnection,
+        defaultJobOptions: {
+          attempts: appConfig.webhook.attempts,
+          backoff: {
+            type: 'exponential',
+            delay: appConfig.webhook.backoffDelay,
+          },
+          removeOnComplete: { age: retentionSeconds },
+          removeOnFail: { age: retentionSeconds },
+        },
+      });
+      this.queue.on('error', (error) => {
+        logger.error('Webhook queue error:', error);
+      });
+    }
+    return this.queue;
+  }
+
+  private sign(body: string): string {
+    const digest = createHmac('sha256', appConfig.webhook.secret)
+      .update(body)
+      .digest('hex');
+    return `sha256=${digest}`;
+  }
+}
+
+export default new WebhookService();
@@ -1,4 +1,11 @@
 // Re-export job types
+import {
+  CsvOptions,
+  FailedRecord,
+  FailurePolicy,
+  ImportCheckpoint,
+  ImportMode,
+} from './job.types';
 export * from './job.types';
 
 // Import record structure
@@ -6,6 +13,73 @@ export interface ImportRecord {
   [key: string]: string | number | Date | null;
 }
 
+// A batch of parsed rows as yielded by the file readers
+export interface ImportBatch {
+  records: ImportRecord[];
+  rowNumbers: number[]; // File row number of each record
+  headers: string[]; // Header names indexed by column position
+}
+
+// Target column metadata from INFORMATION_SCHEMA.COLUMNS
+export interface ColumnMetadata {
+  name: string;
+  dataType: string;
+  maxLength: number | null; // -1 for (MAX) types
+  precision: number | null;
+  scale: number | null;
+  isNullable: boolean;
+  hasDefault: boolean;
+  isIdentity: boolean;
+  isComputed: boolean;
+}
+
+// Options shared by the Excel and CSV readers
+export interface ReadOptions {
+  sheetName?: string;
+  skipRows?: number;
+  csvOptions?: CsvOptions;
+}
+
+// Options that apply to every sheet of an import job
+export interface JobImportOptions extends FailurePolicy {
+  jobId?: string; // Names per-job objects such as replace shadow tables
+  atomic?: boolean; // Run the whole job in one transaction
+  // Receives every failed row with the headers of its sheet
+  onFailedRows?: (failures: FailedRecord[], headers: string[]) => Promise<void>;
+  checkpoint?: ImportCheckpoint; // Resume after the rows it records
+  onCheckpoint?: (checkpoint: ImportCheckpoint) => Promise<void>;
+  isCancelled?: () => Promise<boolean>; // Checked before every batch
+  shouldPause?: () => Promise<boolean>; // Checked before every batch
+  deadline?: number; // Epoch ms the attempt must end by; checked before every batch
+}
+
+/**
+ * Correction to one stored failed row, applied when the row is retried
+ */
+export interface FailedRowEdit {
+  rowNumber: number;
+  sheetName?: string;
+  values: Record<string, string | number | boolean | null>;
+}
+
+export interface ImportOptions extends ReadOptions, JobImportOptions {
+  columnMapping?: Record<string, string>;
+  mode?: ImportMode;
+  keyColumns?: string[];
+  totalRecords?: number; // Known row count, skips the counting pass
+}
+
+export interface ImportResult {
+  successCount: number; // Inserted, updated and unchanged rows
+  failedCount: number;
+  insertedCount: number;
+  updatedCount: number;
+  unchangedCount: number;
+  duration: number; // in milliseconds
+  recordsPerSecond?: number; // Rows read by this attempt over its duration
+  failedRecords?: FailedRecord[];
+}
+
 export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
@@ -18,14 +92,26 @@ export interface ValidationError {
   field: string;
   message: string;
   value?: string | number | boolean | null;
+  row?: number; // File row number
+  column?: string; // Spreadsheet column letter, e.g. "C"
+  sheet?: string;
 }
 
 export interface BatchInsertResult {
   inserted: number;
+  updated?: number; // Merge modes only
+  unchanged?: number; // Merge modes only
   failed: number;
   errors: Array<{ row: number; error: string }>;
 }
 
+export interface ImportValidationResult {
+  isValid: boolean;
+  errors: ValidationError[];
+  rowCount: number;
+  invalidRowCount: number;
+}
+
 export interface ExcelValidationResult {
   isValid: boolean;
   errors: ValidationError[];
@@ -35,3 +121,28 @@ export interface ExcelValidationResult {
 export type FileValidation =
   | { isValid: true; error?: never } // Success: no error
   | { isValid: false; error: string }; // Failure: error required
+
+// Column type inferred from the values seen while inspecting a file
+export type InferredColumnType =
+  'empty' | 'boolean' | 'integer' | 'decimal' | 'date' | 'string';
+
+export interface ColumnInspection {
+  name: string;
+  column: string; // Spreadsheet column letter, e.g. "C"
+  inferredType: InferredColumnType;
+  nullCount: number;
+}
+
+export interface WorksheetInspection {
+  name: string;
+  headers: string[];
+  rowCount: number;
+  columns: ColumnInspection[];
+  sampleRows: ImportRecord[];
+}
+
+export interface FileInspection {
+  fileName: string;
+  format: 'xlsx' | 'csv';
+  worksheets: WorksheetInspection[];
+}
@@ -32,10 +32,46 @@ export enum JobPriority {
   CRITICAL = 20,
 }
 
+/**
+ * Text encodings accepted for delimited uploads; auto detects the BOM and
+ * falls back to Windows-1252 when the file is not valid UTF-8
+ */
+export type CsvEncoding =
+  'auto' | 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+/**
+ * Parsing options for delimited text uploads (.csv / .tsv)
+ */
+export interface CsvOptions {
+  delimiter?: string;
+  quoteChar?: string;
+  encoding?: CsvEncoding;
+  hasHeaderRow?: boolean;
+}
+
+/**
+ * How imported rows are written to the target table
+ * - insert: append every row
+ * - upsert: update rows whose key columns match, insert the rest
+ * - update-only: update rows whose key columns match, ignore the rest
+ * - replace: load into a shadow table, then swap it in for the current
+ *   contents only if every row loaded
+ */
+export type ImportMode = 'insert' | 'upsert' | 'update-only' | 'replace';
+
+/**
+ * Limits on failed rows; breaching one aborts the import
+ */
+export interface FailurePolicy {
+  maxFailedRows?: number;
+  maxFailedPercentage?: number; // Of the rows processed so far
+  stopOnFirstError?: boolean;
+}
+
 /**
  * Job data payload sent to the queue
  */
-export interface JobData {
+export interface JobData extends FailurePolicy {
   jobId: string;
   fileName: string;
   filePath: string;
@@ -45,10 +81,45 @@ export interface JobData {
   sheetName?: string;
   columnMapping?: Record<string, string>;
   skipRows?: number;
+  csvOptions?: CsvOptions;
+  mode?: ImportMode;
+  keyColumns?: string[]; // Target columns that identify a row for upsert/update-only
+  atomic?: boolean; // All-or-nothing: one transaction for the whole job
+  sheets?: SheetImportConfig[];
+  parentJobId?: string; // Job whose failed rows this job retries
+  checkpoint?: ImportCheckpoint; // Progress saved by earlier attempts
   priority?: JobPriority;
+  timeout?: number; // Per-attempt limit in milliseconds, checked between batches
   metadata?: Metadata;
   userId?: string;
   createdAt?: Date;
+  callback?: WebhookConfig;
+}
+
+/**
+ * Per-sheet import target for multi-sheet workbooks
+ * Sheets are imported in the order they are declared
+ */
+export interface SheetImportConfig {
+  sheetName: string;
+  tableName: string;
+  columnMapping?: Record<string, string>;
+  skipRows?: number;
+  mode?: ImportMode;
+  keyColumns?: string[];
+}
+
+/**
+ * Progress of a single sheet within a multi-sheet job
+ */
+export interface SheetProgress {
+  sheetName: string;
+  tableName: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  total: number;
+  processed: number;
+  failed: number;
+  percentage: number;
 }
 
 /**
@@ -64,6 +135,8 @@ export interface JobProgress {
   estimatedTimeRemaining?: number; // in milliseconds
   recordsPerSecond?: number;
   lastUpdated?: Date;
+  currentSheet?: string;
+  sheets?: SheetProgress[];
 }
 
 /**
@@ -78,7 +151,9 @@ export interface JobResult {
   error?: string;
   errorStack?: string;
   result?: JobCompletionResult;
-  attempts?: number;
+  parentJobId?: string;
+  priority?: JobPriority;
+  attempts?: number; // Attempts that have finished, failed or not
   maxAttempts?: number;
   logs?: JobLog[];
 }
@@ -90,11 +165,62 @@ export interface JobCompletionResult {
   successCount: number;
   failedCount: number;
   duration: number; // in milliseconds
+  insertedCount?: number;
+  updatedCount?: number;
+  unchangedCount?: number; // Key matched but no value differed, or no match in update-only mode
   recordsPerSecond?: number;
   failedRecords?: FailedRecord[];
   tableName: string;
   fileName: string;
   warnings?: string[];
+  sheets?: SheetCompletionResult[];
+}
+
+/**
+ * Result of a single sheet within a multi-sheet job
+ */
+export interface SheetCompletionResult {
+  sheetName: string;
+  tableName: string;
+  successCount: number;
+  failedCount: number;
+  insertedCount: number;
+  updatedCount: number;
+  unchangedCount: number;
+  duration: number; // in milliseconds
+}
+
+/**
+ * Progress a job has written, saved after every batch so a retried or
+ * stalled job resumes after the last written batch instead of row 1
+ */
+export interface ImportCheckpoint {
+  completedSheets: SheetCompletionResult[]; // Workbook sheets already imported
+  current?: SheetCheckpoint; // Sheet in progress
+  failureTotals: FailureTotals;
+}
+
+/**
+ * Position and counts within the sheet in progress
+ */
+export interface SheetCheckpoint {
+  sheetName?: string; // Unset for CSV files and imports without a sheetName
+  lastRowNumber: number; // Last file row of the last written batch
+  processedCount: number;
+  successCount: number;
+  insertedCount: number;
+  updatedCount: number;
+  unchangedCount: number;
+  failedCount: number;
+}
+
+/**
+ * Totals the failure policy is checked against, across all sheets
+ */
+export interface FailureTotals {
+  processed: number;
+  written: number;
+  failed: number;
 }
 
 /**
@@ -102,8 +228,10 @@ export interface JobCompletionResult {
  */
 export interface FailedRecord {
   rowNumber: number;
+  sheetName?: string;
   data?: Record<string, string | number | boolean | Date | null>;
   error: string;
+  columns?: string[]; // Headers of the cells that caused the failure
   timestamp: Date;
 }
 
@@ -114,9 +242,29 @@ export interface JobLog {
   timestamp: Date;
   level: 'info' | 'warn' | 'error' | 'debug';
   message: string;
+  correlationId?: string;
   metadata?: Metadata;
 }
 
+/**
+ * Filters for reading a job's log
+ */
+export interface JobLogFilter {
+  level?: JobLog['level']; // Least severe level returned
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * One page of a job's log, oldest entry first
+ */
+export interface JobLogPage {
+  logs: JobLog[];
+  total: number; // Entries matching the filter across all pages
+  limit: number;
+  offset: number;
+}
+
 /**
  * Job statistics
  */
@@ -146,6 +294,71 @@ export interface JobFilterOptions {
   sortOrder?: 'asc' | 'desc';
 }
 
+/**
+ * Filters scoping job statistics
+ */
+export type JobStatisticsFilter = Pick<
+  JobFilterOptions,
+  'startDate' | 'endDate' | 'tableName' | 'userId'
+>;
+
+/**
+ * A job as recorded in the job history table
+ */
+export interface JobHistoryEntry {
+  jobId: string;
+  status: JobStatus;
+  tableName: string;
+  fileName?: string;
+  mode?: ImportMode;
+  userId?: string;
+  parentJobId?: string;
+  correlationId?: string;
+  totalRecords: number;
+  processedCount: number;
+  successCount: number;
+  failedCount: number;
+  insertedCount: number;
+  updatedCount: number;
+  unchangedCount: number;
+  error?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  duration?: number; // in milliseconds
+}
+
+/**
+ * Fields written to a job's history entry as it runs
+ */
+export type JobHistoryUpdate = Partial<
+  Pick<
+    JobHistoryEntry,
+    | 'status'
+    | 'totalRecords'
+    | 'processedCount'
+    | 'successCount'
+    | 'failedCount'
+    | 'insertedCount'
+    | 'updatedCount'
+    | 'unchangedCount'
+    | 'error'
+    | 'startedAt'
+    | 'completedAt'
+    | 'duration'
+  >
+>;
+
+/**
+ * One page of job history
+ */
+export interface JobHistoryPage {
+  jobs: JobHistoryEntry[];
+  total: number; // Jobs matching the filter across all pages
+  limit: number;
+  offset: number;
+}
+
 /**
  * Job creation options
  */
@@ -206,11 +419,69 @@ export interface QueueHealth {
   failedJobs: number;
   delayedJobs: number;
   pausedJobs: number;
+  prioritizedJobs: number;
+  waitingChildrenJobs: number;
+  oldestWaitingAge?: number; // in milliseconds, unset when nothing waits
   workersCount: number;
   isPaused: boolean;
+  issues: string[]; // Thresholds breached, empty when healthy
   timestamp: Date;
 }
 
+/**
+ * Job events a webhook can be told about
+ */
+export type WebhookEventType = Extract<
+  JobEventType,
+  'completed' | 'failed' | 'progress'
+>;
+
+/**
+ * Webhook registered with an upload
+ */
+export interface WebhookConfig {
+  url: string;
+  events: WebhookEventType[];
+  progressMilestones?: number[]; // Percentages that send a progress event
+}
+
+/**
+ * One attempt to deliver a webhook
+ */
+export interface WebhookAttempt {
+  attempt: number;
+  attemptedAt: Date;
+  statusCode?: number;
+  error?: string;
+  duration: number; // in milliseconds
+}
+
+/**
+ * A webhook event and every attempt to deliver it
+ */
+export interface WebhookDelivery {
+  deliveryId: string;
+  jobId: string;
+  url: string;
+  event: JobEvent;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: WebhookAttempt[];
+  createdAt: Date;
+  redeliveryOf?: string; // Delivery this one sends again
+}
+
+/**
+ * Dead-letter entry for a webhook that could not be delivered
+ */
+export interface WebhookDeadLetter {
+  deliveryId: string;
+  jobId: string;
+  url: string;
+  eventType: JobEventType;
+  error: string;
+  failedAt: Date;
+}
+
 /**
  * Job retry configuration
  */
@@ -0,0 +1,65 @@
+import { BlockList, isIP } from 'node:net';
+
+// Loopback, private, link-local, shared, multicast and reserved ranges
+const IPV4_NON_PUBLIC: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+// Unspecified, loopback, unique local, link-local and multicast ranges
+// IPv4-mapped addresses are matched against the IPv4 ranges by BlockList
+const IPV6_NON_PUBLIC: Array<[string, number]> = [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+
+const nonPublicRanges = new BlockList();
+for (const [network, prefix] of IPV4_NON_PUBLIC) {
+  nonPublicRanges.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of IPV6_NON_PUBLIC) {
+  nonPublicRanges.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Strip the brackets URL hostnames put around IPv6 addresses
+ */
+export const normalizeHostname = (hostname: string): string =>
+  hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+
+/**
+ * Check whether an IP address is not reachable on the public internet
+ * Anything that is not an IP address is not judged and returns false
+ */
+export const isNonPublicAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return nonPublicRanges.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Check whether a hostname is local by name alone: localhost or a
+ * non-public IP literal; other names must be resolved to tell
+ */
+export const isLocalHostname = (hostname: string): boolean => {
+  const host = normalizeHostname(hostname);
+  return (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    isNonPublicAddress(host)
+  );
+};
@@ -0,0 +1,153 @@
+import {
+  ColumnInspection,
+  ImportRecord,
+  InferredColumnType,
+  WorksheetInspection,
+} from '../types';
+
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const DECIMAL_PATTERN = /^[-+]?(\d+\.\d*|\.\d+)([eE][-+]?\d+)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?/;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+
+// Column appended to error reports; ignored when a corrected report is
+// uploaded again, unless the target table has a column of that name
+export const ERROR_REPORT_COLUMN = 'Error';
+
+/**
+ * Convert a 1-based column number to its spreadsheet letter (1 -> A, 27 -> AA)
+ */
+export const toColumnLetter = (columnNumber: number): string => {
+  let letter = '';
+  let remaining = columnNumber;
+
+  while (remaining > 0) {
+    const offset = (remaining - 1) % 26;
+    letter = String.fromCharCode(65 + offset) + letter;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+
+  return letter;
+};
+
+/**
+ * Infer the type of a single cell value
+ * Text is classified by content, so CSV values and numbers stored as text
+ * in Excel are typed the same way as native cells
+ */
+export const inferValueType = (
+  value: ImportRecord[string] | boolean | undefined
+): InferredColumnType => {
+  if (value === null || value === undefined || value === '') {
+    return 'empty';
+  }
+  if (typeof value === 'boolean') {
+    return 'boolean';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'decimal';
+  }
+  if (value instanceof Date) {
+    return 'date';
+  }
+
+  const text = value.trim();
+  if (INTEGER_PATTERN.test(text)) {
+    return 'integer';
+  }
+  if (DECIMAL_PATTERN.test(text)) {
+    return 'decimal';
+  }
+  if (BOOLEAN_PATTERN.test(text)) {
+    return 'boolean';
+  }
+  if (DATE_PATTERN.test(text) && !Number.isNaN(new Date(text).getTime())) {
+    return 'date';
+  }
+  return 'string';
+};
+
+/**
+ * Combine two inferred types into the narrowest type that fits both
+ */
+export const mergeInferredTypes = (
+  current: InferredColumnType,
+  next: InferredColumnType
+): InferredColumnType => {
+  if (current === 'empty' || current === next) {
+    return next;
+  }
+  if (next === 'empty') {
+    return current;
+  }
+  if (
+    (current === 'integer' && next === 'decimal') ||
+    (current === 'decimal' && next === 'integer')
+  ) {
+    return 'decimal';
+  }
+  return 'string';
+};
+
+/**
+ * Accumulates headers, row count, sample rows and column types
+ * for one worksheet while its rows are streamed
+ */
+export class WorksheetProfiler {
+  private headers: string[] = [];
+  private rowCount = 0;
+  private readonly sampleRows: ImportRecord[] = [];
+  private readonly types = new Map<string, InferredColumnType>();
+  private readonly filledCounts = new Map<string, number>();
+
+  constructor(
+    private readonly name: string,
+    private readonly sampleSize: number
+  ) {}
+
+  setHeaders(headers: string[]): void {
+    this.headers = headers;
+  }
+
+  addRecord(record: ImportRecord): void {
+    this.rowCount++;
+    if (this.sampleRows.length < this.sampleSize) {
+      this.sampleRows.push(record);
+    }
+
+    for (const [header, value] of Object.entries(record)) {
+      const type = inferValueType(value);
+      if (type !== 'empty') {
+        this.filledCounts.set(header, (this.filledCounts.get(header) ?? 0) + 1);
+      }
+      this.types.set(
+        header,
+        mergeInferredTypes(this.types.get(header) ?? 'empty', type)
+      );
+    }
+  }
+
+  toInspection(): WorksheetInspection {
+    const columns: ColumnInspection[] = [];
+
+    this.headers.forEach((header, index) => {
+      if (!header) {
+        return;
+      }
+      columns.push({
+        name: header,
+        column: toColumnLetter(index + 1),
+        inferredType: this.types.get(header) ?? 'empty',
+        nullCount: this.rowCount - (this.filledCounts.get(header) ?? 0),
+      });
+    });
+
+    return {
+      name: this.name,
+      headers: this.headers.filter(Boolean),
+      rowCount: this.rowCount,
+      columns,
+      sampleRows: this.sampleRows,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Job a piece of work runs for
+ */
+export interface JobContext {
+  jobId: string;
+  correlationId?: string;
+}
+
+const storage = new AsyncLocalStorage<JobContext>();
+
+/**
+ * Run a function, and everything it awaits, on behalf of a job
+ * Log entries written meanwhile are tagged with the job and captured in
+ * its log
+ */
+export const runInJobContext = <T>(context: JobContext, fn: () => T): T =>
+  storage.run(context, fn);
+
+/**
+ * Run a function outside any job, e.g. work scheduled by a job that must
+ * not be tagged with it
+ */
+export const runOutsideJobContext = <T>(fn: () => T): T => storage.exit(fn);
+
+/**
+ * Get the job the current code runs for, if any
+ */
+export const getJobContext = (): JobContext | undefined => storage.getStore();
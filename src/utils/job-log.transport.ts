@@ -0,0 +1,110 @@
+import winston from 'winston';
+import TransportStream from 'winston-transport';
+import jobLogRepository from '../repositories/job-log.repository';
+import { JobLog, Metadata } from '../types';
+import { runOutsideJobContext } from './job-context';
+import logger from './logger';
+
+const JOB_LOG_LEVELS: ReadonlySet<string> = new Set<JobLog['level']>([
+  'error',
+  'warn',
+  'info',
+  'debug',
+]);
+
+// Fields every entry carries anyway, left out of its metadata
+const OMITTED_FIELDS = [
+  'level',
+  'message',
+  'jobId',
+  'correlationId',
+  'timestamp',
+  'service',
+];
+
+/**
+ * Keep primitive values and flatten anything else to a string, so an
+ * entry stays small and serializable
+ */
+const toMetadataValue = (value: unknown): Metadata[string] => {
+  if (
+    value === null ||
+    value === undefined ||
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  ) {
+    return value;
+  }
+  if (value instanceof Error) {
+    return value.message;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+/**
+ * Copies every log entry tagged with a jobId into that job's log
+ * Entries are written to Redis in bulk once per tick, so a batch logging
+ * many failed rows costs one round trip
+ */
+export class JobLogTransport extends TransportStream {
+  private pending = new Map<string, JobLog[]>();
+  private flushScheduled = false;
+
+  log(info: winston.Logform.TransformableInfo, next: () => void): void {
+    const { level, message, jobId, correlationId } = info;
+
+    if (typeof jobId === 'string' && JOB_LOG_LEVELS.has(level)) {
+      const metadata: Metadata = Object.fromEntries(
+        Object.entries(info)
+          .filter(([key]) => !OMITTED_FIELDS.includes(key))
+          .map(([key, value]) => [key, toMetadataValue(value)])
+      );
+      const entries = this.pending.get(jobId) ?? [];
+      entries.push({
+        timestamp: new Date(),
+        level: level as JobLog['level'],
+        message: String(message),
+        correlationId:
+          typeof correlationId === 'string' ? correlationId : undefined,
+        metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+      });
+      this.pending.set(jobId, entries);
+      this.scheduleFlush();
+    }
+
+    next();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushScheduled) {
+      return;
+    }
+    this.flushScheduled = true;
+
+    // Failures to store are logged without the job, or they would be
+    // captured and stored again
+    runOutsideJobContext(() => setImmediate(() => this.flush()));
+  }
+
+  private flush(): void {
+    const pending = this.pending;
+    this.pending = new Map();
+    this.flushScheduled = false;
+
+    for (const [jobId, entries] of pending) {
+      jobLogRepository.append(jobId, entries).catch((error) => {
+        logger.warn(`Logs of job ${jobId} were not stored`, {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }
+  }
+}
@@ -2,6 +2,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import winston from 'winston';
 import { appConfig } from '../config/app.config';
+import { getJobContext } from './job-context';
 
 // Ensure log directory exists
 const logDir = appConfig.logging.dir;
@@ -9,8 +10,19 @@ if (!fs.existsSync(logDir)) {
   fs.mkdirSync(logDir, { recursive: true });
 }
 
+// Tag entries written while a job runs with its jobId and correlationId
+const jobContextFormat = winston.format((info) => {
+  const context = getJobContext();
+  if (context) {
+    info.jobId ??= context.jobId;
+    info.correlationId ??= context.correlationId;
+  }
+  return info;
+});
+
 // Define log format
 const logFormat = winston.format.combine(
+  jobContextFormat(),
   winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
   winston.format.errors({ stack: true }),
   winston.format.splat(),
@@ -43,12 +43,13 @@ export const sendError = (
 export const sendValidationError = (
   res: Response,
   errors: ValidationError[],
-  correlationId: string
+  correlationId: string,
+  details?: Record<string, unknown>
 ): Response => {
   const response: ApiResponse = {
     success: false,
     error: 'Validation failed',
-    data: { validationErrors: errors },
+    data: { ...details, validationErrors: errors },
     correlationId,
     timestamp: new Date(),
   };
@@ -0,0 +1,253 @@
+import sql from 'mssql';
+import { ColumnMetadata, ImportRecord } from '../types';
+
+type CellValue = ImportRecord[string] | boolean | undefined;
+
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  tinyint: [0, 255],
+  smallint: [-32768, 32767],
+  int: [-2147483648, 2147483647],
+};
+
+const NUMERIC_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const GUID_PATTERN =
+  /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i;
+
+/**
+ * Raised when a cell value cannot be converted to its column's SQL type
+ */
+export class CoercionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CoercionError';
+    Object.setPrototypeOf(this, CoercionError.prototype);
+  }
+}
+
+/**
+ * Render a column's type the way SQL Server declares it, e.g. nvarchar(50)
+ */
+export const formatSqlType = (column: ColumnMetadata): string => {
+  const type = column.dataType.toLowerCase();
+
+  if (column.maxLength !== null && isTextType(type)) {
+    return `${type}(${column.maxLength === -1 ? 'max' : column.maxLength})`;
+  }
+  if ((type === 'decimal' || type === 'numeric') && column.precision) {
+    return `${type}(${column.precision},${column.scale ?? 0})`;
+  }
+  return type;
+};
+
+/**
+ * Map a column's metadata to the mssql type used to send its values
+ */
+export const toSqlType = (column: ColumnMetadata): sql.ISqlType => {
+  const length =
+    column.maxLength === null || column.maxLength === -1
+      ? sql.MAX
+      : column.maxLength;
+
+  switch (column.dataType.toLowerCase()) {
+    case 'tinyint':
+      return sql.TinyInt();
+    case 'smallint':
+      return sql.SmallInt();
+    case 'int':
+      return sql.Int();
+    case 'bigint':
+      return sql.BigInt();
+    case 'decimal':
+      return sql.Decimal(column.precision ?? 18, column.scale ?? 0);
+    case 'numeric':
+      return sql.Numeric(column.precision ?? 18, column.scale ?? 0);
+    case 'money':
+      return sql.Money();
+    case 'smallmoney':
+      return sql.SmallMoney();
+    case 'float':
+      return sql.Float();
+    case 'real':
+      return sql.Real();
+    case 'bit':
+      return sql.Bit();
+    case 'date':
+      return sql.Date();
+    case 'datetime':
+      return sql.DateTime();
+    case 'datetime2':
+      return sql.DateTime2();
+    case 'smalldatetime':
+      return sql.SmallDateTime();
+    case 'datetimeoffset':
+      return sql.DateTimeOffset();
+    case 'time':
+      return sql.Time();
+    case 'uniqueidentifier':
+      return sql.UniqueIdentifier();
+    case 'char':
+      return sql.Char(length);
+    case 'varchar':
+      return sql.VarChar(length);
+    case 'nchar':
+      return sql.NChar(length);
+    case 'text':
+      return sql.Text();
+    case 'ntext':
+      return sql.NText();
+    case 'nvarchar':
+      return sql.NVarChar(length);
+    default:
+      return sql.NVarChar(sql.MAX);
+  }
+};
+
+/**
+ * Bracket-quote a column name for use in generated SQL
+ */
+export const quoteIdentifier = (name: string): string =>
+  `[${name.replace(/]/g, ']]')}]`;
+
+/**
+ * Check whether a column holds character data
+ */
+export const isTextType = (dataType: string): boolean =>
+  ['char', 'varchar', 'nchar', 'nvarchar', 'text', 'ntext'].includes(
+    dataType.toLowerCase()
+  );
+
+/**
+ * Convert a cell value to the JavaScript value the column's SQL type expects
+ * Empty cells become null; throws CoercionError when the value does not fit
+ */
+export const coerceValue = (
+  value: CellValue,
+  column: ColumnMetadata
+): string | number | Date | null => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const type = column.dataType.toLowerCase();
+  const describe = () =>
+    `Value '${value instanceof Date ? value.toISOString() : value}' cannot be converted to ${formatSqlType(column)}`;
+
+  switch (type) {
+    case 'tinyint':
+    case 'smallint':
+    case 'int':
+    case 'bigint': {
+      const text = String(value).trim();
+      if (typeof value === 'boolean' || !/^[-+]?\d+(\.0+)?$/.test(text)) {
+        throw new CoercionError(describe());
+      }
+      if (type === 'bigint') {
+        const big = BigInt(text.split('.')[0]);
+        if (big < -(2n ** 63n) || big >= 2n ** 63n) {
+          throw new CoercionError(`${describe()}: out of range`);
+        }
+        return Number.isSafeInteger(Number(big)) ? Number(big) : big.toString();
+      }
+      const number = Number(text);
+      const [min, max] = INTEGER_RANGES[type];
+      if (number < min || number > max) {
+        throw new CoercionError(`${describe()}: out of range`);
+      }
+      return number;
+    }
+
+    case 'decimal':
+    case 'numeric':
+    case 'money':
+    case 'smallmoney':
+    case 'float':
+    case 'real': {
+      const number = toNumber(value);
+      if (number === null) {
+        throw new CoercionError(describe());
+      }
+      const precision = type.endsWith('money') ? 19 : column.precision;
+      const scale = type.endsWith('money') ? 4 : (column.scale ?? 0);
+      if (
+        (type === 'decimal' || type === 'numeric' || type.endsWith('money')) &&
+        precision &&
+        integerDigits(number) > precision - scale
+      ) {
+        throw new CoercionError(
+          `Value ${number} exceeds the precision of ${formatSqlType(column)}`
+        );
+      }
+      return number;
+    }
+
+    case 'bit': {
+      const text = String(value).trim().toLowerCase();
+      if (['1', 'true', 'yes', 'y'].includes(text)) {
+        return 1;
+      }
+      if (['0', 'false', 'no', 'n'].includes(text)) {
+        return 0;
+      }
+      throw new CoercionError(describe());
+    }
+
+    case 'date':
+    case 'datetime':
+    case 'datetime2':
+    case 'smalldatetime':
+    case 'datetimeoffset':
+    case 'time': {
+      const date = value instanceof Date ? value : new Date(String(value));
+      if (typeof value === 'number' || Number.isNaN(date.getTime())) {
+        throw new CoercionError(describe());
+      }
+      return date;
+    }
+
+    case 'uniqueidentifier': {
+      const text = String(value).trim();
+      if (!GUID_PATTERN.test(text)) {
+        throw new CoercionError(describe());
+      }
+      return text;
+    }
+
+    default: {
+      const text = value instanceof Date ? value.toISOString() : String(value);
+      if (
+        isTextType(type) &&
+        column.maxLength !== null &&
+        column.maxLength !== -1 &&
+        text.length > column.maxLength
+      ) {
+        throw new CoercionError(
+          `Value exceeds maximum length of ${column.maxLength} characters for ${formatSqlType(column)} (got ${text.length})`
+        );
+      }
+      return text;
+    }
+  }
+};
+
+/**
+ * Parse a number from a numeric cell or numeric text, or null if it is neither
+ */
+const toNumber = (
+  value: Exclude<CellValue, null | undefined>
+): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && NUMERIC_PATTERN.test(value.trim())) {
+    return Number(value.trim());
+  }
+  return null;
+};
+
+/**
+ * Count the digits before the decimal point
+ */
+const integerDigits = (value: number): number => {
+  const integerPart = Math.trunc(Math.abs(value));
+  return integerPart === 0 ? 0 : integerPart.toFixed(0).length;
+};
@@ -0,0 +1,152 @@
+import Joi from 'joi';
+import { JobStatus } from '../types';
+
+// Earlier versions of GET /api/jobs filtered running jobs as 'active'
+const STATUS_ALIASES: Record<string, JobStatus> = {
+  active: JobStatus.PROCESSING,
+};
+
+/**
+ * Joi with an array type that also accepts a comma-separated string
+ */
+const ListJoi: Joi.Root = Joi.extend((joi) => ({
+  type: 'array',
+  base: joi.array(),
+  coerce: {
+    from: 'string',
+    method: (value: string) => ({
+      value: value.split(',').map((item) => item.trim()),
+    }),
+  },
+}));
+
+const statusSchema = Joi.string()
+  .lowercase()
+  .valid(...Object.values(JobStatus), ...Object.keys(STATUS_ALIASES))
+  .messages({
+    'any.only': `Status must be one of ${Object.values(JobStatus).join(', ')}`,
+  });
+
+/**
+ * Filters narrowing jobs to a creation window, a table or a user
+ */
+const jobScopeKeys = {
+  startDate: Joi.date().iso().optional().messages({
+    'date.format': 'Start date must be an ISO 8601 date',
+  }),
+
+  endDate: Joi.date().iso().min(Joi.ref('startDate')).optional().messages({
+    'date.format': 'End date must be an ISO 8601 date',
+    'date.min': 'End date cannot be before start date',
+  }),
+
+  tableName: Joi.string().trim().max(128).optional(),
+
+  userId: Joi.string().trim().max(255).optional(),
+};
+
+/**
+ * Validation schema for listing jobs
+ * Status accepts a comma-separated list or a repeated query parameter
+ */
+export const jobQuerySchema = Joi.object({
+  status: ListJoi.array()
+    .items(statusSchema)
+    .min(1)
+    .optional()
+    .custom((value: string[]) => [
+      ...new Set(value.map((status) => STATUS_ALIASES[status] ?? status)),
+    ]),
+
+  ...jobScopeKeys,
+
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .optional()
+    .default(20)
+    .messages({
+      'number.base': 'Limit must be a number',
+      'number.min': 'Limit must be between 1 and 100',
+      'number.max': 'Limit must be between 1 and 100',
+    }),
+
+  offset: Joi.number().integer().min(0).optional().default(0).messages({
+    'number.base': 'Offset must be a number',
+    'number.min': 'Offset cannot be negative',
+  }),
+
+  sortBy: Joi.string()
+    .valid('createdAt', 'completedAt', 'status')
+    .optional()
+    .default('createdAt'),
+
+  sortOrder: Joi.string()
+    .lowercase()
+    .valid('asc', 'desc')
+    .optional()
+    .default('desc'),
+});
+
+/**
+ * Validation schema for job statistics
+ */
+export const jobStatsQuerySchema = Joi.object(jobScopeKeys);
+
+/**
+ * Validation schema for the webhook dead-letter log
+ */
+export const deadLetterQuerySchema = Joi.object({
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(1000)
+    .optional()
+    .default(100)
+    .messages({
+      'number.base': 'Limit must be a number',
+      'number.min': 'Limit must be between 1 and 1000',
+      'number.max': 'Limit must be between 1 and 1000',
+    }),
+});
+
+/**
+ * Validation schema for cancelling a job
+ */
+export const cancelJobQuerySchema = Joi.object({
+  // Delete the rows the job already inserted
+  rollback: Joi.boolean().optional().default(false).messages({
+    'boolean.base': 'Rollback must be true or false',
+  }),
+});
+
+/**
+ * Validation schema for reading a job's log
+ */
+export const jobLogQuerySchema = Joi.object({
+  level: Joi.string()
+    .lowercase()
+    .valid('error', 'warn', 'info', 'debug')
+    .optional()
+    .messages({
+      'any.only': 'Level must be one of error, warn, info, debug',
+    }),
+
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(1000)
+    .optional()
+    .default(100)
+    .messages({
+      'number.base': 'Limit must be a number',
+      'number.min': 'Limit must be between 1 and 1000',
+      'number.max': 'Limit must be between 1 and 1000',
+    }),
+
+  offset: Joi.number().integer().min(0).optional().default(0).messages({
+    'number.base': 'Offset must be a number',
+    'number.min': 'Offset cannot be negative',
+  }),
+});
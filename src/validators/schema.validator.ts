@@ -0,0 +1,179 @@
+import {
+  ColumnMetadata,
+  ImportMode,
+  ImportRecord,
+  ValidationError,
+} from '../types';
+import { ERROR_REPORT_COLUMN, toColumnLetter } from '../utils/column.util';
+import { CoercionError, coerceValue } from '../utils/sql-type.util';
+
+/**
+ * Validates file headers and rows against the target table's metadata
+ * Headers are resolved through the column mapping and matched to table
+ * columns case-insensitively, as SQL Server does by default
+ */
+export class SchemaValidator {
+  private readonly columns = new Map<string, ColumnMetadata>();
+
+  constructor(
+    private readonly tableColumns: ColumnMetadata[],
+    private readonly columnMapping?: Record<string, string>,
+    private readonly keyColumns: string[] = [],
+    private readonly mode: ImportMode = 'insert'
+  ) {
+    for (const column of tableColumns) {
+      this.columns.set(column.name.toLowerCase(), column);
+    }
+  }
+
+  /**
+   * Get the table column a file header is loaded into
+   */
+  getTargetColumn(header: string): ColumnMetadata | undefined {
+    const target = this.columnMapping?.[header] || header;
+    return this.columns.get(target.toLowerCase());
+  }
+
+  /**
+   * Check whether a header is the Error column of an uploaded error report
+   */
+  isReportColumn(header: string): boolean {
+    return header === ERROR_REPORT_COLUMN && !this.getTargetColumn(header);
+  }
+
+  /**
+   * Check that every header maps to a writable column and that every
+   * column requiring a value is covered by a header
+   */
+  validateHeaders(headers: string[]): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const covered = new Set<string>();
+
+    headers.forEach((header, index) => {
+      if (!header || this.isReportColumn(header)) {
+        return;
+      }
+
+      const column = this.getTargetColumn(header);
+      const location = { field: header, column: toColumnLetter(index + 1) };
+
+      if (!column) {
+        errors.push({
+          ...location,
+          message: `Column ${this.columnMapping?.[header] || header} does not exist in the target table`,
+        });
+      } else if (column.isIdentity || column.isComputed) {
+        errors.push({
+          ...location,
+          message: `Column ${column.name} is ${column.isIdentity ? 'an identity' : 'a computed'} column and cannot be imported`,
+        });
+      } else {
+        covered.add(column.name.toLowerCase());
+      }
+    });
+
+    // update-only never inserts, so columns left out of the file keep their values
+    const missingColumns = this.tableColumns.filter(
+      (column) =>
+        this.mode !== 'update-only' &&
+        this.isRequired(column) &&
+        !covered.has(column.name.toLowerCase())
+    );
+    if (missingColumns.length > 0) {
+      errors.push({
+        field: 'columns',
+        message: `Missing required columns: ${missingColumns.map((column) => column.name).join(', ')}`,
+      });
+    }
+
+    for (const key of this.keyColumns) {
+      const column = this.columns.get(key.toLowerCase());
+      if (!column) {
+        errors.push({
+          field: 'keyColumns',
+          message: `Key column ${key} does not exist in the target table`,
+        });
+      } else if (!covered.has(key.toLowerCase())) {
+        errors.push({
+          field: 'keyColumns',
+          message: `Key column ${column.name} is not present in the file`,
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check a single row: type convertibility, string length,
+   * decimal precision and NOT NULL constraints
+   */
+  validateRecord(
+    record: ImportRecord,
+    rowNumber: number,
+    headers: string[]
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    headers.forEach((header, index) => {
+      const column = header ? this.getTargetColumn(header) : undefined;
+      if (!column || column.isIdentity || column.isComputed) {
+        return;
+      }
+
+      const value = record[header] ?? null;
+      const location = {
+        field: header,
+        row: rowNumber,
+        column: toColumnLetter(index + 1),
+      };
+
+      try {
+        const coerced = coerceValue(value, column);
+        if (coerced === null && this.isKey(column)) {
+          errors.push({
+            ...location,
+            message: `Key column ${column.name} must have a value`,
+            value: null,
+          });
+        } else if (coerced === null && this.isRequired(column)) {
+          errors.push({
+            ...location,
+            message: `Column ${column.name} does not allow NULL`,
+            value: null,
+          });
+        }
+      } catch (error) {
+        if (!(error instanceof CoercionError)) {
+          throw error;
+        }
+        errors.push({
+          ...location,
+          message: error.message,
+          value: value instanceof Date ? value.toISOString() : value,
+        });
+      }
+    });
+
+    return errors;
+  }
+
+  private isKey(column: ColumnMetadata): boolean {
+    return this.keyColumns.some(
+      (key) => key.toLowerCase() === column.name.toLowerCase()
+    );
+  }
+
+  /**
+   * A column needs a value from the file when it is NOT NULL and the
+   * database cannot fill it in
+   */
+  private isRequired(column: ColumnMetadata): boolean {
+    return (
+      !column.isNullable &&
+      !column.hasDefault &&
+      !column.isIdentity &&
+      !column.isComputed
+    );
+  }
+}
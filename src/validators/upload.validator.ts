@@ -1,36 +1,389 @@
 import Joi from 'joi';
+import path from 'node:path';
+import { appConfig } from '../config/app.config';
+import { FailedRowEdit } from '../types';
+import { isLocalHostname, normalizeHostname } from '../utils/address.util';
+
+/**
+ * MIME types browsers and HTTP clients send for .xlsx, .csv and .tsv files
+ */
+export const allowedMimeTypes = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+  'text/csv',
+  'application/csv',
+  'text/tab-separated-values',
+  'text/plain',
+];
+
+/**
+ * Joi with JSON coercion for object and array fields
+ * Multipart form fields always arrive as strings
+ */
+const JsonJoi: Joi.Root = Joi.extend(
+  (joi) => ({
+    type: 'object',
+    base: joi.object(),
+    coerce: {
+      from: 'string',
+      method: (value: string) => ({ value: parseJson(value) }),
+    },
+  }),
+  (joi) => ({
+    type: 'array',
+    base: joi.array(),
+    coerce: {
+      from: 'string',
+      method: (value: string) => ({ value: parseJson(value) }),
+    },
+  })
+);
+
+/**
+ * Parse JSON, leaving malformed input for the base type to reject
+ */
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+const sqlIdentifierPattern = /^[a-zA-Z_]\w*$/;
+
+const tableNameSchema = Joi.string()
+  .pattern(sqlIdentifierPattern)
+  .max(128)
+  .messages({
+    'string.pattern.base': 'Table name must be a valid SQL identifier',
+    'string.empty': 'Table name is required',
+    'any.required': 'Table name is required',
+  });
+
+const sheetNameSchema = Joi.string().max(31).messages({
+  'string.max': 'Sheet name cannot exceed 31 characters',
+});
+
+const columnMappingSchema = JsonJoi.object()
+  .pattern(Joi.string(), Joi.string().pattern(sqlIdentifierPattern))
+  .messages({
+    'object.unknown': 'Invalid column mapping format',
+  });
+
+const skipRowsSchema = Joi.number().integer().min(0).default(0).messages({
+  'number.base': 'Skip rows must be a number',
+  'number.min': 'Skip rows cannot be negative',
+});
+
+const modeSchema = Joi.string()
+  .valid('insert', 'upsert', 'update-only', 'replace')
+  .messages({
+    'any.only': 'Mode must be one of insert, upsert, update-only, replace',
+  });
+
+// Target columns matched on in upsert/update-only mode
+const keyColumnsSchema = JsonJoi.array()
+  .items(Joi.string().pattern(sqlIdentifierPattern))
+  .min(1)
+  .unique((a: string, b: string) => a.toLowerCase() === b.toLowerCase())
+  .when('mode', {
+    is: Joi.valid('upsert', 'update-only').required(),
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  })
+  .messages({
+    'array.base': 'Key columns must be a JSON array of column names',
+    'array.min': 'Key columns must list at least one column',
+    'array.unique': 'Each key column can only be listed once',
+    'any.required': 'Key columns are required for upsert and update-only',
+    'any.unknown': 'Key columns only apply to upsert and update-only',
+    'string.pattern.base': 'Key columns must be valid SQL identifiers',
+  });
+
+// CSV/TSV parsing options, ignored for .xlsx files
+const csvOptionsKeys = {
+  delimiter: Joi.string().length(1).optional().messages({
+    'string.length': 'Delimiter must be a single character',
+  }),
+
+  quoteChar: Joi.string().length(1).optional().messages({
+    'string.length': 'Quote character must be a single character',
+  }),
+
+  encoding: Joi.string()
+    .valid('auto', 'utf-8', 'utf-16le', 'utf-16be', 'windows-1252')
+    .optional()
+    .default('auto'),
+
+  hasHeaderRow: Joi.boolean().optional().default(true),
+};
 
 /**
  * Validation schema for upload request
  */
 export const uploadSchema = Joi.object({
-  tableName: Joi.string()
-    .required()
-    .pattern(/^[a-zA-Z_]\w*$/)
-    .max(128)
+  tableName: tableNameSchema.when('sheets', {
+    is: Joi.exist(),
+    then: Joi.optional(),
+    otherwise: Joi.required(),
+  }),
+
+  sheetName: sheetNameSchema.optional(),
+
+  columnMapping: columnMappingSchema.optional(),
+
+  skipRows: skipRowsSchema.optional(),
+
+  mode: modeSchema.optional(),
+
+  keyColumns: keyColumnsSchema,
+
+  // Multi-sheet import: each sheet goes to its own table, in this order
+  sheets: JsonJoi.array()
+    .items(
+      Joi.object({
+        sheetName: sheetNameSchema.required(),
+        tableName: tableNameSchema.required(),
+        columnMapping: columnMappingSchema.optional(),
+        skipRows: skipRowsSchema.optional(),
+        mode: modeSchema.optional(),
+        keyColumns: keyColumnsSchema,
+      })
+    )
+    .min(1)
+    .unique('sheetName')
+    .optional()
     .messages({
-      'string.pattern.base': 'Table name must be a valid SQL identifier',
-      'string.empty': 'Table name is required',
-      'any.required': 'Table name is required',
+      'array.base': 'Sheets must be a JSON array',
+      'array.min': 'Sheets must list at least one sheet',
+      'array.unique': 'Each sheet can only be listed once',
     }),
 
-  sheetName: Joi.string().optional().max(31).messages({
-    'string.max': 'Sheet name cannot exceed 31 characters',
+  // All-or-nothing import in a single transaction
+  atomic: Joi.boolean()
+    .optional()
+    .default(false)
+    .when('mode', {
+      is: 'replace',
+      then: Joi.valid(false).messages({
+        'any.only': 'Replace imports cannot run atomically',
+      }),
+    })
+    .when('sheets', {
+      is: Joi.array()
+        .has(Joi.object({ mode: Joi.valid('replace').required() }).unknown())
+        .required(),
+      then: Joi.valid(false).messages({
+        'any.only': 'Replace imports cannot run atomically',
+      }),
+    }),
+
+  // Failure policy: breaching any limit aborts the import
+  maxFailedRows: Joi.number().integer().min(0).optional().messages({
+    'number.base': 'Max failed rows must be a number',
+    'number.min': 'Max failed rows cannot be negative',
   }),
 
-  columnMapping: Joi.object()
+  maxFailedPercentage: Joi.number().min(0).max(100).optional().messages({
+    'number.base': 'Max failed percentage must be a number',
+    'number.min': 'Max failed percentage must be between 0 and 100',
+    'number.max': 'Max failed percentage must be between 0 and 100',
+  }),
+
+  stopOnFirstError: Joi.boolean().optional(),
+
+  validateOnly: Joi.boolean().optional().default(false),
+
+  // Recorded in the job history so jobs can be listed per user
+  userId: Joi.string().trim().max(255).optional(),
+
+  // Webhook told about the job's progress and outcome
+  callbackUrl: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .custom((value: string, helpers) => {
+      // Names that resolve inward are caught again before every delivery
+      const hostname = normalizeHostname(new URL(value).hostname);
+      return isLocalHostname(hostname) &&
+        !appConfig.webhook.allowedPrivateHosts.includes(hostname)
+        ? helpers.error('string.privateHost')
+        : value;
+    })
     .optional()
-    .pattern(Joi.string(), Joi.string().pattern(/^[a-zA-Z_]\w*$/))
     .messages({
-      'object.unknown': 'Invalid column mapping format',
+      'string.uri': 'Callback URL must be an http or https URL',
+      'string.uriCustomScheme': 'Callback URL must be an http or https URL',
+      'string.privateHost':
+        'Callback URL must not point to a private or local address',
     }),
 
-  skipRows: Joi.number().integer().min(0).optional().default(0).messages({
-    'number.base': 'Skip rows must be a number',
-    'number.min': 'Skip rows cannot be negative',
-  }),
+  callbackEvents: JsonJoi.array()
+    .items(Joi.string().valid('completed', 'failed', 'progress'))
+    .min(1)
+    .unique()
+    .optional()
+    .messages({
+      'array.base': 'Callback events must be a JSON array',
+      'any.only': 'Callback events must be completed, failed or progress',
+    }),
 
-  validateOnly: Joi.boolean().optional().default(false),
+  progressMilestones: JsonJoi.array()
+    .items(Joi.number().integer().min(1).max(100))
+    .min(1)
+    .unique()
+    .optional()
+    .messages({
+      'array.base': 'Progress milestones must be a JSON array',
+      'number.min': 'Progress milestones must be percentages from 1 to 100',
+      'number.max': 'Progress milestones must be percentages from 1 to 100',
+    }),
+
+  // Queue options, capped by the server
+  priority: Joi.string()
+    .lowercase()
+    .valid('low', 'normal', 'high', 'critical')
+    .optional()
+    .messages({
+      'any.only': 'Priority must be low, normal, high or critical',
+    }),
+
+  delay: Joi.number()
+    .integer()
+    .min(0)
+    .max(appConfig.job.maxDelay)
+    .optional()
+    .messages({
+      'number.base': 'Delay must be a number of milliseconds',
+      'number.min': 'Delay cannot be negative',
+      'number.max': `Delay cannot exceed ${appConfig.job.maxDelay}ms`,
+    }),
+
+  scheduledAt: Joi.date()
+    .iso()
+    .greater('now')
+    .optional()
+    .custom((value: Date, helpers) =>
+      value.getTime() - Date.now() > appConfig.job.maxDelay
+        ? helpers.error('date.max')
+        : value
+    )
+    .messages({
+      'date.format': 'Scheduled start must be an ISO 8601 date',
+      'date.greater': 'Scheduled start must be in the future',
+      'date.max': `Scheduled start cannot be more than ${appConfig.job.maxDelay}ms away`,
+    }),
+
+  attempts: Joi.number()
+    .integer()
+    .min(1)
+    .max(appConfig.job.maxAttempts)
+    .optional()
+    .messages({
+      'number.base': 'Attempts must be a number',
+      'number.min': `Attempts must be between 1 and ${appConfig.job.maxAttempts}`,
+      'number.max': `Attempts must be between 1 and ${appConfig.job.maxAttempts}`,
+    }),
+
+  backoff: JsonJoi.object({
+    type: Joi.string().valid('fixed', 'exponential').required(),
+    delay: Joi.number()
+      .integer()
+      .min(0)
+      .max(appConfig.job.maxBackoffDelay)
+      .required()
+      .messages({
+        'number.max': `Backoff delay cannot exceed ${appConfig.job.maxBackoffDelay}ms`,
+      }),
+  })
+    .optional()
+    .messages({
+      'object.base': 'Backoff must be a JSON object',
+      'any.only': 'Backoff type must be fixed or exponential',
+    }),
+
+  timeout: Joi.number()
+    .integer()
+    .min(1000)
+    .max(appConfig.job.maxTimeout)
+    .optional()
+    .messages({
+      'number.base': 'Timeout must be a number of milliseconds',
+      'number.min': 'Timeout must be at least 1000ms',
+      'number.max': `Timeout cannot exceed ${appConfig.job.maxTimeout}ms`,
+    }),
+
+  ...csvOptionsKeys,
+})
+  .with('callbackEvents', 'callbackUrl')
+  .with('progressMilestones', 'callbackUrl')
+  .nand('sheets', 'sheetName')
+  .nand('sheets', 'tableName')
+  .nand('sheets', 'mode')
+  .oxor('delay', 'scheduledAt')
+  .messages({
+    'object.nand':
+      'Use either sheets or tableName/sheetName/mode, not both; set mode and keyColumns per sheet',
+    'object.oxor': 'Use either delay or scheduledAt, not both',
+    'object.with': '{{#main}} requires {{#peer}}',
+  });
+
+/**
+ * Validation schema for inspect request
+ */
+export const inspectSchema = Joi.object({
+  sampleSize: Joi.number()
+    .integer()
+    .min(0)
+    .max(100)
+    .optional()
+    .default(10)
+    .messages({
+      'number.base': 'Sample size must be a number',
+      'number.max': 'Sample size cannot exceed 100 rows',
+    }),
+
+  skipRows: skipRowsSchema.optional(),
+
+  ...csvOptionsKeys,
+});
+
+/**
+ * Validation schema for retrying the failed rows of a job
+ * Without a file, the stored failed rows are retried with the edits applied
+ */
+export const retryFailedSchema = Joi.object({
+  edits: JsonJoi.array()
+    .items(
+      Joi.object({
+        rowNumber: Joi.number().integer().min(1).required(),
+        sheetName: sheetNameSchema.optional(),
+        values: Joi.object()
+          .pattern(
+            Joi.string(),
+            Joi.alternatives(Joi.string(), Joi.number(), Joi.boolean()).allow(
+              null
+            )
+          )
+          .min(1)
+          .required(),
+      })
+    )
+    .unique(
+      (a: FailedRowEdit, b: FailedRowEdit) =>
+        a.rowNumber === b.rowNumber && a.sheetName === b.sheetName
+    )
+    .optional()
+    .messages({
+      'array.base': 'Edits must be a JSON array',
+      'array.unique': 'Each row can only be edited once',
+    }),
+
+  // Reader options for an uploaded corrected file
+  sheetName: sheetNameSchema.optional(),
+
+  skipRows: skipRowsSchema.optional(),
+
+  ...csvOptionsKeys,
 });
 
 /**
@@ -43,22 +396,21 @@ export const validateFile = (
     return { isValid: false, error: 'No file uploaded' };
   }
 
-  const allowedMimeTypes = [
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'application/vnd.ms-excel',
-  ];
+  const allowedExtensions = appConfig.upload.allowedFileTypes;
 
   if (!allowedMimeTypes.includes(file.mimetype)) {
     return {
       isValid: false,
-      error: 'Invalid file type. Only .xlsx files are allowed',
+      error: `Invalid file type. Only ${allowedExtensions.join(', ')} files are allowed`,
     };
   }
 
-  if (!file.originalname.endsWith('.xlsx')) {
+  if (
+    !allowedExtensions.includes(path.extname(file.originalname).toLowerCase())
+  ) {
     return {
       isValid: false,
-      error: 'Invalid file extension. Only .xlsx files are allowed',
+      error: `Invalid file extension. Only ${allowedExtensions.join(', ')} files are allowed`,
     };
   }
 
@@ -1,19 +1,52 @@
-import { Job, Worker } from 'bullmq';
+import { DelayedError, Job, UnrecoverableError, Worker } from 'bullmq';
 import fs from 'node:fs';
+import { appConfig } from '../config/app.config';
 import DatabaseConnection from '../config/database.config';
 import { queueConfig, workerOptions } from '../config/queue.config';
 import { cleanupFile } from '../middleware/upload.middleware';
-import importService from '../services/import.service';
-import { JobData, JobProgress } from '../types';
+import failedRecordRepository from '../repositories/failed-record.repository';
+import jobControlRepository from '../repositories/job-control.repository';
+import jobHistoryRepository from '../repositories/job-history.repository';
+import importService, {
+  ImportAbortedError,
+  ImportCancelledError,
+  ImportPausedError,
+} from '../services/import.service';
+import webhookService from '../services/webhook.service';
+import {
+  ImportCheckpoint,
+  JobCompletionResult,
+  JobData,
+  JobHistoryUpdate,
+  JobImportOptions,
+  JobProgress,
+  JobStatus,
+  Metadata,
+  WebhookEventType,
+} from '../types';
+import { runInJobContext } from '../utils/job-context';
 import logger from '../utils/logger';
 
+// How long a job parked by a paused queue waits before it checks again;
+// resuming a job promotes it straight away, and a paused queue holds it
+// once it is due
+const QUEUE_PAUSE_RECHECK_MS = 5 * 1000;
+
+// Progress is written to the job history at most this often
+const HISTORY_PROGRESS_INTERVAL_MS = 5 * 1000;
+
 class ImportWorker {
   private readonly worker: Worker;
 
   constructor() {
     this.worker = new Worker(
       queueConfig.name,
-      this.processJob.bind(this),
+      // Everything logged while a job runs is copied into its log
+      (job: Job<JobData>, token?: string) =>
+        runInJobContext(
+          { jobId: job.data.jobId, correlationId: job.data.correlationId },
+          () => this.processJob(job, token)
+        ),
       workerOptions
     );
 
@@ -23,62 +56,384 @@ class ImportWorker {
   /**
    * Process import job
    */
-  private async processJob(job: Job<JobData>): Promise<any> {
+  private async processJob(
+    job: Job<JobData>,
+    token?: string
+  ): Promise<JobCompletionResult> {
     const {
       jobId,
       fileName,
       filePath,
+      totalRecords,
       tableName,
+      sheetName,
       columnMapping,
+      skipRows,
+      csvOptions,
+      mode,
+      keyColumns,
+      atomic,
+      maxFailedRows,
+      maxFailedPercentage,
+      stopOnFirstError,
+      sheets,
+      checkpoint,
+      timeout,
       correlationId,
     } = job.data;
 
     logger.info(`Processing job ${jobId}`, {
       correlationId,
+      attempt: job.attemptsMade + 1,
       fileName,
       tableName,
+      sheetName,
+      skipRows,
+      mode,
+      atomic,
+      resumeFrom: checkpoint?.current?.lastRowNumber,
     });
 
+    // The timeout applies to each attempt, so a retry gets the full time
+    const deadline = timeout ? Date.now() + timeout : undefined;
+
+    const isCancelled = async (): Promise<boolean> => {
+      // An unreachable flag must not stop the import
+      try {
+        return await jobControlRepository.isCancelRequested(jobId);
+      } catch (error) {
+        logger.warn(`Cancel flag of job ${jobId} could not be read`, {
+          correlationId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return false;
+      }
+    };
+
+    // Jobs that cannot resume from a checkpoint run to the end
+    const resumable = importService.isResumable(job.data);
+    const shouldPause = async (): Promise<boolean> => {
+      if (!resumable) {
+        return false;
+      }
+      try {
+        return (
+          (await jobControlRepository.isPauseRequested(jobId)) ||
+          (await jobControlRepository.isQueuePaused())
+        );
+      } catch (error) {
+        logger.warn(`Pause flags of job ${jobId} could not be read`, {
+          correlationId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        return false;
+      }
+    };
+
+    // What the job has written so far, kept even when saving it fails
+    let writtenUpTo = checkpoint;
+
     try {
+      // Cancelled or paused while it was waiting in the queue
+      if (await isCancelled()) {
+        throw new ImportCancelledError('Import cancelled before it started');
+      }
+      if (await shouldPause()) {
+        throw new ImportPausedError('Import paused before it started');
+      }
+
       // Verify file exists
       if (!fs.existsSync(filePath)) {
         throw new Error(`File not found: ${filePath}`);
       }
 
-      // Process import with progress updates
-      const result = await importService.processImport(
-        filePath,
-        tableName,
-        undefined,
-        columnMapping,
-        0,
-        (progress: JobProgress) => {
-          // Update job progress
-          job.updateProgress(progress);
-          logger.info(`Job ${jobId} progress: ${progress.percentage}%`, {
+      let historyWrittenAt = 0;
+      const sentMilestones = new Set<number>();
+      const onProgress = (progress: JobProgress) => {
+        // A missed progress update is overwritten by the next one
+        job.updateProgress(progress).catch((error) =>
+          logger.warn(`Progress of job ${jobId} was not saved`, {
             correlationId,
-            processed: progress.processed,
-            total: progress.total,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          })
+        );
+        if (
+          Date.now() - historyWrittenAt >= HISTORY_PROGRESS_INTERVAL_MS ||
+          progress.processed === progress.total
+        ) {
+          historyWrittenAt = Date.now();
+          this.recordHistory(jobId, {
+            processedCount: progress.processed,
+            failedCount: progress.failed,
           });
         }
-      );
+        for (const milestone of webhookService.getReachedMilestones(
+          job.data.callback,
+          progress.percentage
+        )) {
+          if (!sentMilestones.has(milestone)) {
+            sentMilestones.add(milestone);
+            this.sendWebhook(
+              job.data,
+              'progress',
+              {
+                data: {
+                  milestone,
+                  processed: progress.processed,
+                  failed: progress.failed,
+                  total: progress.total,
+                  percentage: progress.percentage,
+                },
+              },
+              `progress-${milestone}`
+            );
+          }
+        }
+        logger.info(`Job ${jobId} progress: ${progress.percentage}%`, {
+          correlationId,
+          processed: progress.processed,
+          total: progress.total,
+          recordsPerSecond: progress.recordsPerSecond,
+          estimatedTimeRemaining: progress.estimatedTimeRemaining,
+          currentSheet: progress.currentSheet,
+        });
+      };
+
+      // Failed rows are kept for the error report; rows stored after the
+      // checkpoint belong to batches that are imported again
+      await failedRecordRepository
+        .truncate(jobId, checkpoint?.failureTotals.failed ?? 0)
+        .catch((error) =>
+          logger.warn(`Failed to reset failed rows of job ${jobId}:`, error)
+        );
 
+      // Options shared by every sheet of the job
+      const jobOptions: JobImportOptions = {
+        jobId,
+        atomic,
+        maxFailedRows,
+        maxFailedPercentage,
+        stopOnFirstError,
+        onFailedRows: async (failures, headers) => {
+          // A missing report must not fail the import itself
+          try {
+            await failedRecordRepository.append(jobId, headers, failures);
+          } catch (error) {
+            logger.warn(`Failed rows of job ${jobId} were not stored`, {
+              correlationId,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
+        },
+        checkpoint,
+        isCancelled,
+        shouldPause,
+        deadline,
+        onCheckpoint: async (next) => {
+          writtenUpTo = next;
+          // Without a checkpoint a retry repeats more rows, nothing worse
+          try {
+            await job.updateData({ ...job.data, checkpoint: next });
+          } catch (error) {
+            logger.warn(`Checkpoint of job ${jobId} was not saved`, {
+              correlationId,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
+        },
+      };
+
+      // Process import with progress updates
+      const result = sheets?.length
+        ? await importService.processWorkbook(
+            filePath,
+            sheets,
+            onProgress,
+            jobOptions
+          )
+        : await importService.processImport(
+            filePath,
+            tableName,
+            {
+              ...jobOptions,
+              sheetName,
+              columnMapping,
+              skipRows,
+              csvOptions,
+              mode,
+              keyColumns,
+              totalRecords,
+            },
+            onProgress
+          );
+
+      // Counts only; failed rows carry the imported data
       logger.info(`Job ${jobId} completed successfully`, {
         correlationId,
-        result,
+        successCount: result.successCount,
+        failedCount: result.failedCount,
+        duration: result.duration,
       });
+      cleanupFile(filePath);
 
-      return result;
+      return { ...result, tableName, fileName };
     } catch (error) {
+      if (error instanceof ImportPausedError) {
+        await this.park(job, token);
+        throw new DelayedError();
+      }
+
       logger.error(`Job ${jobId} failed:`, {
         correlationId,
         error: error instanceof Error ? error.message : 'Unknown error',
         stack: error instanceof Error ? error.stack : undefined,
       });
+
+      // A breached failure policy fails the same way on every attempt,
+      // and a cancelled job must not be retried
+      if (error instanceof ImportCancelledError) {
+        throw new UnrecoverableError(
+          await this.rollBackIfRequested(job.data, error, writtenUpTo)
+        );
+      }
+      if (error instanceof ImportAbortedError) {
+        throw new UnrecoverableError(error.message);
+      }
       throw error;
-    } finally {
-      // Cleanup uploaded file
-      cleanupFile(filePath);
+    }
+  }
+
+  /**
+   * Delete the rows a cancelled job inserted when the cancel asked for it
+   * Returns the message the job fails with
+   */
+  private async rollBackIfRequested(
+    jobData: JobData,
+    error: ImportCancelledError,
+    checkpoint?: ImportCheckpoint
+  ): Promise<string> {
+    const { jobId, correlationId } = jobData;
+
+    const requested = await jobControlRepository
+      .isRollbackRequested(jobId)
+      .catch(() => false);
+    // Atomic and replace jobs leave no written rows behind
+    if (!requested || !checkpoint || !importService.isResumable(jobData)) {
+      return error.message;
+    }
+
+    try {
+      const failedRows = new Map<string, Set<number>>();
+      for await (const record of failedRecordRepository.stream(jobId)) {
+        const sheet = record.sheetName ?? '';
+        failedRows.set(
+          sheet,
+          (failedRows.get(sheet) ?? new Set()).add(record.rowNumber)
+        );
+      }
+
+      const deleted = await importService.rollbackImport(
+        jobData,
+        checkpoint,
+        failedRows
+      );
+      return `Import cancelled; ${deleted} rows written by the job were deleted`;
+    } catch (rollbackError) {
+      const message =
+        rollbackError instanceof Error
+          ? rollbackError.message
+          : 'Unknown error';
+      logger.error(`Rollback of job ${jobId} failed:`, {
+        correlationId,
+        error: message,
+      });
+      return `${error.message}; deleting them failed: ${message}`;
+    }
+  }
+
+  /**
+   * Move a paused job to the delayed set; it resumes from its checkpoint
+   */
+  private async park(job: Job<JobData>, token?: string): Promise<void> {
+    const pausedByJob = await jobControlRepository
+      .isPauseRequested(job.data.jobId)
+      .catch(() => false);
+    const delay = pausedByJob
+      ? appConfig.job.pauseRecheckMs
+      : QUEUE_PAUSE_RECHECK_MS;
+
+    await job.moveToDelayed(Date.now() + delay, token);
+    this.recordHistory(job.data.jobId, { status: JobStatus.PAUSED });
+    logger.info(`Job ${job.data.jobId} paused`, {
+      correlationId: job.data.correlationId,
+      lastRowNumber: job.data.checkpoint?.current?.lastRowNumber,
+      pausedBy: pausedByJob ? 'job' : 'queue',
+    });
+  }
+
+  /**
+   * Write to the job history without failing the job when it is unreachable
+   */
+  private async recordHistory(
+    jobId: string,
+    changes: JobHistoryUpdate
+  ): Promise<void> {
+    try {
+      await jobHistoryRepository.update(jobId, changes);
+    } catch (error) {
+      logger.warn(`History of job ${jobId} was not updated`, {
+        changes: Object.keys(changes),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Record how a job that stopped for good ended
+   */
+  private async recordFailure(job: Job<JobData>, error: Error): Promise<void> {
+    const { jobId } = job.data;
+
+    // Without a finish time the job is waiting to be retried
+    if (!job.finishedOn) {
+      await this.recordHistory(jobId, {
+        status: JobStatus.PENDING,
+        error: error.message,
+      });
+      return;
+    }
+
+    const cancelled = await jobControlRepository
+      .isCancelRequested(jobId)
+      .catch(() => false);
+    const status = cancelled ? JobStatus.CANCELLED : JobStatus.FAILED;
+    await this.recordHistory(jobId, {
+      status,
+      error: error.message,
+      completedAt: new Date(job.finishedOn),
+      duration: job.processedOn ? job.finishedOn - job.processedOn : undefined,
+    });
+    await this.sendWebhook(job.data, 'failed', {
+      data: { status },
+      error: error.message,
+    });
+  }
+
+  /**
+   * Queue a webhook event without failing the job when it cannot be queued
+   */
+  private async sendWebhook(
+    jobData: JobData,
+    eventType: WebhookEventType,
+    details: { data?: Metadata; error?: string },
+    key?: string
+  ): Promise<void> {
+    try {
+      await webhookService.notify(jobData, eventType, details, key);
+    } catch (error) {
+      logger.warn(`Webhook ${eventType} of job ${jobData.jobId} not queued`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
   }
 
@@ -89,17 +444,61 @@ class ImportWorker {
     // Worker lifecycle events
     this.worker.on('active', (job) => {
       logger.info(`Worker started processing job ${job.id}`);
+      this.recordHistory(job.data.jobId, {
+        status: JobStatus.PROCESSING,
+        startedAt: new Date(job.processedOn ?? Date.now()),
+      });
     });
 
-    this.worker.on('completed', (job, result) => {
-      logger.info(`Worker completed job ${job.id}`, { result });
+    this.worker.on('completed', (job, result: JobCompletionResult) => {
+      logger.info(`Worker completed job ${job.id}`, {
+        successCount: result.successCount,
+        failedCount: result.failedCount,
+        tableName: result.tableName,
+      });
+      this.recordHistory(job.data.jobId, {
+        status: JobStatus.COMPLETED,
+        processedCount: result.successCount + result.failedCount,
+        successCount: result.successCount,
+        failedCount: result.failedCount,
+        insertedCount: result.insertedCount,
+        updatedCount: result.updatedCount,
+        unchangedCount: result.unchangedCount,
+        completedAt: new Date(job.finishedOn ?? Date.now()),
+        duration: result.duration,
+      });
+      this.sendWebhook(job.data, 'completed', {
+        data: {
+          tableName: result.tableName,
+          fileName: result.fileName,
+          successCount: result.successCount,
+          failedCount: result.failedCount,
+          insertedCount: result.insertedCount,
+          updatedCount: result.updatedCount,
+          unchangedCount: result.unchangedCount,
+          duration: result.duration,
+          recordsPerSecond: result.recordsPerSecond,
+        },
+      });
     });
 
     this.worker.on('failed', (job, error) => {
       logger.error(`Worker failed job ${job?.id}:`, {
+        jobId: job?.data.jobId,
+        correlationId: job?.data.correlationId,
+        attemptsMade: job?.attemptsMade,
         error: error.message,
         stack: error.stack,
       });
+
+      // The file is kept for retries until the job has failed for good,
+      // including jobs that stalled on a worker that crashed
+      if (job?.finishedOn) {
+        cleanupFile(job.data.filePath);
+      }
+      if (job) {
+        this.recordFailure(job, error);
+      }
     });
 
     this.worker.on('progress', (job, progress) => {
@@ -111,7 +510,7 @@ class ImportWorker {
     });
 
     this.worker.on('stalled', (jobId) => {
-      logger.warn(`Job ${jobId} stalled`);
+      logger.warn(`Job ${jobId} stalled`, { jobId });
     });
   }
 
@@ -0,0 +1,62 @@
+import { Job, Worker } from 'bullmq';
+import { redisConnection } from '../config/queue.config';
+import webhookService, {
+  WebhookJobData,
+  webhookQueueName,
+} from '../services/webhook.service';
+import logger from '../utils/logger';
+
+// Deliveries mostly wait on the receiver, so many can run at once
+const WEBHOOK_CONCURRENCY = 10;
+
+class WebhookWorker {
+  private readonly worker: Worker<WebhookJobData>;
+
+  constructor() {
+    this.worker = new Worker<WebhookJobData>(
+      webhookQueueName,
+      (job: Job<WebhookJobData>) => webhookService.deliver(job),
+      { connection: redisConnection, concurrency: WEBHOOK_CONCURRENCY }
+    );
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * Setup event listeners
+   */
+  private setupEventListeners(): void {
+    this.worker.on('failed', (job, error) => {
+      logger.warn(`Webhook delivery ${job?.id} attempt failed`, {
+        attempt: job?.attemptsMade,
+        error: error.message,
+      });
+    });
+
+    this.worker.on('error', (error) => {
+      logger.error('Webhook worker error:', error);
+    });
+  }
+
+  /**
+   * Close worker
+   */
+  async close(): Promise<void> {
+    await this.worker.close();
+  }
+}
+
+let workerInstance: WebhookWorker | null = null;
+
+export const startWebhookWorker = (): void => {
+  workerInstance = new WebhookWorker();
+  logger.info('Webhook worker started successfully');
+};
+
+export const stopWebhookWorker = async (): Promise<void> => {
+  if (workerInstance) {
+    await workerInstance.close();
+    await webhookService.close();
+    logger.info('Webhook worker stopped');
+  }
+};
@@ -0,0 +1,323 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import dataRepository from '../../src/repositories/data.repository';
+import jobControlRepository from '../../src/repositories/job-control.repository';
+import jobService from '../../src/services/job.service';
+import { FailedRecord, ImportCheckpoint, JobData } from '../../src/types';
+import { startWorker } from '../../src/workers/import.worker';
+
+type Processor = (job: unknown) => Promise<unknown>;
+
+jest.mock('../../src/config/queue.config', () => ({
+  queueConfig: { name: 'test-queue' },
+  queueOptions: {},
+  workerOptions: {},
+  redisConnection: {},
+}));
+
+jest.mock('../../src/config/database.config', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({ connect: jest.fn(), getPool: jest.fn() }),
+  },
+}));
+
+let processor: Processor;
+const queuedJob = { getState: jest.fn(), promote: jest.fn(), data: {} };
+jest.mock('bullmq', () => ({
+  ...jest.requireActual('bullmq'),
+  Queue: jest.fn().mockImplementation(() => ({
+    getJob: jest.fn(async (jobId: string) =>
+      jobId === 'missing' ? undefined : queuedJob
+    ),
+    on: jest.fn(),
+  })),
+  Worker: jest.fn().mockImplementation((_name: string, fn: Processor) => {
+    processor = fn;
+    return { on: jest.fn(), close: jest.fn() };
+  }),
+}));
+
+jest.mock('../../src/repositories/job-control.repository', () => ({
+  __esModule: true,
+  default: {
+    requestCancel: jest.fn(),
+    isCancelRequested: jest.fn(),
+    isRollbackRequested: jest.fn(),
+    isPauseRequested: jest.fn().mockResolvedValue(false),
+    isQueuePaused: jest.fn().mockResolvedValue(false),
+  },
+}));
+
+jest.mock('../../src/repositories/job-history.repository', () => ({
+  __esModule: true,
+  default: { update: jest.fn() },
+}));
+
+// Failed rows kept in memory the way Redis would keep them
+const storedFailures: FailedRecord[] = [];
+jest.mock('../../src/repositories/failed-record.repository', () => ({
+  __esModule: true,
+  default: {
+    truncate: jest.fn().mockResolvedValue(undefined),
+    append: jest.fn(async (_jobId: string, _headers, records) => {
+      storedFailures.push(...records);
+    }),
+    stream: jest.fn(async function* () {
+      yield* storedFailures;
+    }),
+  },
+}));
+
+const transaction = { commit: jest.fn() };
+jest.mock('../../src/repositories/data.repository', () => ({
+  __esModule: true,
+  default: {
+    tableExists: jest.fn().mockResolvedValue(true),
+    getTableSchema: jest.fn().mockResolvedValue(
+      [
+        ['Id', 'int', null],
+        ['Name', 'nvarchar', 50],
+      ].map(([name, dataType, maxLength]) => ({
+        name,
+        dataType,
+        maxLength,
+        precision: null,
+        scale: null,
+        isNullable: true,
+        hasDefault: false,
+        isIdentity: false,
+        isComputed: false,
+      }))
+    ),
+    bulkInsertWithTVP: jest.fn(async (_tableName, records) => ({
+      inserted: records.length,
+      failed: 0,
+      errors: [],
+    })),
+    beginTransaction: jest.fn(async () => transaction),
+    rollbackTransaction: jest.fn(),
+    deleteMatchingRows: jest.fn(async (_tableName, records) => records.length),
+  },
+}));
+
+const mockedControl = jobControlRepository as jest.Mocked<
+  typeof jobControlRepository
+>;
+const mockedRepository = dataRepository as jest.Mocked<typeof dataRepository>;
+
+describe('Cancelling a job', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each(['waiting', 'prioritized', 'active'])(
+    'flags a %s job for the worker',
+    async (state) => {
+      queuedJob.getState.mockResolvedValue(state);
+
+      await expect(jobService.cancelJob('job-1')).resolves.toBeNull();
+
+      expect(mockedControl.requestCancel).toHaveBeenCalledWith('job-1', false);
+      expect(queuedJob.promote).not.toHaveBeenCalled();
+    }
+  );
+
+  it('promotes a delayed job so it stops without waiting out the delay', async () => {
+    queuedJob.getState.mockResolvedValue('delayed');
+
+    await expect(
+      jobService.cancelJob('job-1', { rollback: true })
+    ).resolves.toBeNull();
+
+    expect(mockedControl.requestCancel).toHaveBeenCalledWith('job-1', true);
+    expect(queuedJob.promote).toHaveBeenCalled();
+  });
+
+  it.each([
+    ['a finished job', 'job-1', 'completed'],
+    ['an unknown job', 'missing', 'waiting'],
+  ])('refuses to cancel %s', async (_case, jobId, state) => {
+    queuedJob.getState.mockResolvedValue(state);
+
+    await expect(jobService.cancelJob(jobId)).resolves.toBe(
+      `Job ${jobId} not found or cannot be cancelled`
+    );
+    expect(mockedControl.requestCancel).not.toHaveBeenCalled();
+  });
+
+  it('refuses to roll back an upsert job', async () => {
+    queuedJob.getState.mockResolvedValue('active');
+    queuedJob.data = { mode: 'upsert', keyColumns: ['Id'] };
+
+    await expect(
+      jobService.cancelJob('job-1', { rollback: true })
+    ).resolves.toMatch(/cannot be rolled back/);
+    expect(mockedControl.requestCancel).not.toHaveBeenCalled();
+
+    queuedJob.data = {};
+  });
+});
+
+describe('Cancelled jobs in the worker', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  const runJob = (checkpoint?: ImportCheckpoint) => {
+    const data: JobData = {
+      jobId: 'job-1',
+      fileName: 'employees.csv',
+      filePath,
+      tableName: 'Employees',
+      totalRecords: 1200,
+      correlationId: 'test-correlation-id',
+      createdAt: new Date(),
+      checkpoint,
+    };
+    return processor({
+      data,
+      attemptsMade: 0,
+      updateProgress: jest.fn().mockResolvedValue(undefined),
+      updateData: jest.fn().mockResolvedValue(undefined),
+    });
+  };
+
+  // Rows 2-1201 of the file; row 11 holds an id that is not a number
+  const firstBatch = Array.from({ length: 500 }, (_, i) => i + 1)
+    .filter((id) => id !== 10)
+    .map((id) => ({ Id: String(id), Name: `Employee ${id}` }));
+
+  beforeAll(async () => {
+    await startWorker();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storedFailures.length = 0;
+    mockedControl.isCancelRequested.mockResolvedValue(false);
+    mockedControl.isRollbackRequested.mockResolvedValue(false);
+
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cancel-test-'));
+    filePath = path.join(tempDir, 'employees.csv');
+    const lines = ['Id,Name'];
+    for (let id = 1; id <= 1200; id++) {
+      lines.push(`${id === 10 ? 'ten' : id},Employee ${id}`);
+    }
+    fs.writeFileSync(filePath, lines.join('\n'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('stops a queued job before it writes anything', async () => {
+    mockedControl.isCancelRequested.mockResolvedValue(true);
+
+    await expect(runJob()).rejects.toMatchObject({
+      name: 'UnrecoverableError',
+      message: 'Import cancelled before it started',
+    });
+    expect(mockedRepository.bulkInsertWithTVP).not.toHaveBeenCalled();
+  });
+
+  it('stops an active job before its next batch and keeps its rows', async () => {
+    // Checked before the job starts and before each batch
+    mockedControl.isCancelRequested
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(false)
+      .mockResolvedValue(true);
+
+    await expect(runJob()).rejects.toMatchObject({
+      name: 'UnrecoverableError',
+      message: 'Import cancelled; 499 rows already written were kept',
+    });
+    expect(mockedRepository.bulkInsertWithTVP).toHaveBeenCalledTimes(1);
+    expect(mockedRepository.deleteMatchingRows).not.toHaveBeenCalled();
+  });
+
+  it('deletes the rows an active job inserted when asked to roll back', async () => {
+    mockedControl.isCancelRequested
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(false)
+      .mockResolvedValue(true);
+    mockedControl.isRollbackRequested.mockResolvedValue(true);
+
+    await expect(runJob()).rejects.toMatchObject({
+      name: 'UnrecoverableError',
+      message: 'Import cancelled; 499 rows written by the job were deleted',
+    });
+
+    // Only the written batch is read again, without its failed row
+    expect(mockedRepository.deleteMatchingRows).toHaveBeenCalledTimes(1);
+    expect(mockedRepository.deleteMatchingRows).toHaveBeenCalledWith(
+      'Employees',
+      firstBatch,
+      expect.any(Array),
+      undefined,
+      transaction
+    );
+    expect(transaction.commit).toHaveBeenCalled();
+  });
+
+  it('rolls back what a parked job wrote in earlier attempts', async () => {
+    mockedControl.isCancelRequested.mockResolvedValue(true);
+    mockedControl.isRollbackRequested.mockResolvedValue(true);
+    storedFailures.push({
+      rowNumber: 11,
+      data: { Id: 'ten', Name: 'Employee 10' },
+      error: 'Id: not a number',
+      timestamp: new Date(),
+    });
+
+    await expect(
+      runJob({
+        completedSheets: [],
+        current: {
+          lastRowNumber: 501,
+          processedCount: 500,
+          successCount: 499,
+          insertedCount: 499,
+          updatedCount: 0,
+          unchangedCount: 0,
+          failedCount: 1,
+        },
+        failureTotals: { processed: 500, written: 499, failed: 1 },
+      })
+    ).rejects.toThrow(
+      'Import cancelled; 499 rows written by the job were deleted'
+    );
+    expect(mockedRepository.bulkInsertWithTVP).not.toHaveBeenCalled();
+    expect(mockedRepository.deleteMatchingRows).toHaveBeenCalledWith(
+      'Employees',
+      firstBatch,
+      expect.any(Array),
+      undefined,
+      transaction
+    );
+  });
+
+  it('keeps the rows when failed rows are missing from the store', async () => {
+    mockedControl.isCancelRequested.mockResolvedValue(true);
+    mockedControl.isRollbackRequested.mockResolvedValue(true);
+
+    await expect(
+      runJob({
+        completedSheets: [],
+        current: {
+          lastRowNumber: 501,
+          processedCount: 500,
+          successCount: 499,
+          insertedCount: 499,
+          updatedCount: 0,
+          unchangedCount: 0,
+          failedCount: 1,
+        },
+        failureTotals: { processed: 500, written: 499, failed: 1 },
+      })
+    ).rejects.toThrow(
+      'Import cancelled before it started; deleting them failed: Only 0 of 1 failed rows are stored, so the written rows cannot be told apart; nothing was deleted'
+    );
+    expect(mockedRepository.deleteMatchingRows).not.toHaveBeenCalled();
+  });
+});
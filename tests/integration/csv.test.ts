@@ -0,0 +1,167 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import csvService from '../../src/services/csv.service';
+import { CsvOptions, ImportBatch } from '../../src/types';
+
+const readBatches = async (
+  filePath: string,
+  options: CsvOptions = {},
+  skipRows = 0
+): Promise<ImportBatch[]> => {
+  const batches: ImportBatch[] = [];
+  for await (const batch of csvService.streamCsvRows(
+    filePath,
+    options,
+    skipRows
+  )) {
+    batches.push(batch);
+  }
+  return batches;
+};
+
+/**
+ * UTF-16 text with its byte order mark
+ */
+const encodeUtf16 = (text: string, byteOrder: 'le' | 'be'): Buffer => {
+  const bytes = Buffer.from(`\ufeff${text}`, 'utf16le');
+  return byteOrder === 'le' ? bytes : bytes.swap16();
+};
+
+describe('CSV reading', () => {
+  let tempDir: string;
+
+  const writeFile = (name: string, content: string | Buffer): string => {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'csv-test-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('keeps delimiters, escaped quotes and line breaks inside quoted fields', async () => {
+    const filePath = writeFile(
+      'quoted.csv',
+      [
+        'Name,Title,Notes',
+        '"Doe, Jane","The ""Boss""","First line',
+        'second line"',
+        'Smith,,"Trailing, comma"',
+      ].join('\n')
+    );
+
+    const [batch] = await readBatches(filePath);
+
+    expect(batch.headers).toEqual(['Name', 'Title', 'Notes']);
+    expect(batch.records).toEqual([
+      {
+        Name: 'Doe, Jane',
+        Title: 'The "Boss"',
+        Notes: 'First line\nsecond line',
+      },
+      { Name: 'Smith', Title: null, Notes: 'Trailing, comma' },
+    ]);
+    // The embedded line break does not count as a row
+    expect(batch.rowNumbers).toEqual([2, 3]);
+  });
+
+  it('splits CRLF and multi-byte characters across chunk boundaries', async () => {
+    const filePath = writeFile(
+      'chunked.csv',
+      'Name,City\r\n"Müller, Jörg",Zürich\r\nÅsa,"Malmö\r\nSödra"\r\n'
+    );
+    // One byte per chunk cuts every CRLF and every multi-byte character
+    const createReadStream = fs.createReadStream;
+    const spy = jest
+      .spyOn(fs, 'createReadStream')
+      .mockImplementation((file) =>
+        createReadStream(file, { highWaterMark: 1 })
+      );
+
+    const [batch] = await readBatches(filePath);
+
+    expect(spy).toHaveBeenCalledWith(filePath);
+    expect(batch.records).toEqual([
+      { Name: 'Müller, Jörg', City: 'Zürich' },
+      { Name: 'Åsa', City: 'Malmö\r\nSödra' },
+    ]);
+    expect(batch.rowNumbers).toEqual([2, 3]);
+  });
+
+  it('strips a UTF-8 byte order mark from the first header', async () => {
+    const filePath = writeFile(
+      'bom.csv',
+      Buffer.concat([
+        Buffer.from([0xef, 0xbb, 0xbf]),
+        Buffer.from('Id,Name\n1,Ana\n'),
+      ])
+    );
+
+    await expect(csvService.detectEncoding(filePath)).resolves.toBe('utf-8');
+    const [batch] = await readBatches(filePath);
+
+    expect(batch.headers).toEqual(['Id', 'Name']);
+    expect(batch.records).toEqual([{ Id: '1', Name: 'Ana' }]);
+  });
+
+  it.each([
+    ['utf-16le', 'le'],
+    ['utf-16be', 'be'],
+  ] as const)(
+    'reads %s files by their byte order mark',
+    async (encoding, byteOrder) => {
+      const filePath = writeFile(
+        `${encoding}.csv`,
+        encodeUtf16('Id,Name\r\n1,Zoë\r\n', byteOrder)
+      );
+
+      await expect(csvService.detectEncoding(filePath)).resolves.toBe(encoding);
+      const [batch] = await readBatches(filePath);
+
+      expect(batch.headers).toEqual(['Id', 'Name']);
+      expect(batch.records).toEqual([{ Id: '1', Name: 'Zoë' }]);
+    }
+  );
+
+  it('falls back to Windows-1252 when the file is not valid UTF-8', async () => {
+    // 0xE9 is é and 0x80 is € in Windows-1252; neither starts valid UTF-8
+    const filePath = writeFile(
+      'legacy.csv',
+      Buffer.concat([
+        Buffer.from('Name,Price\nCaf'),
+        Buffer.from([0xe9]),
+        Buffer.from(',5 '),
+        Buffer.from([0x80]),
+        Buffer.from('\n'),
+      ])
+    );
+
+    await expect(csvService.detectEncoding(filePath)).resolves.toBe(
+      'windows-1252'
+    );
+    const [batch] = await readBatches(filePath);
+
+    expect(batch.records).toEqual([{ Name: 'Café', Price: '5 €' }]);
+  });
+
+  it('names columns by position when there is no header row', async () => {
+    const filePath = writeFile('no-header.tsv', 'Report\n1\tAna\n\t\n2\tBo');
+
+    const [batch] = await readBatches(filePath, { hasHeaderRow: false }, 1);
+
+    expect(batch.headers).toEqual(['Column1', 'Column2']);
+    // Empty rows are dropped; the last row has no trailing line break
+    expect(batch.records).toEqual([
+      { Column1: '1', Column2: 'Ana' },
+      { Column1: '2', Column2: 'Bo' },
+    ]);
+    expect(batch.rowNumbers).toEqual([2, 4]);
+  });
+});
@@ -0,0 +1,268 @@
+import { Request, Response } from 'express';
+import { EventEmitter } from 'node:events';
+import { redisConnection } from '../../src/config/queue.config';
+import jobController from '../../src/controllers/job.controller';
+import jobControlRepository from '../../src/repositories/job-control.repository';
+import jobEventsService from '../../src/services/job-events.service';
+import jobService from '../../src/services/job.service';
+import { JobResult, JobStatus } from '../../src/types';
+
+// The BullMQ events stream of the queue, fed by the tests
+class FakeQueueEvents extends EventEmitter {
+  keys = { events: 'bull:test-queue:events' };
+  close = jest.fn();
+}
+const queueEvents = new FakeQueueEvents();
+
+jest.mock('../../src/config/queue.config', () => ({
+  queueConfig: { name: 'test-queue' },
+  redisConnection: { xrange: jest.fn() },
+}));
+
+jest.mock('../../src/config/database.config', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({ connect: jest.fn(), getPool: jest.fn() }),
+  },
+}));
+
+jest.mock('bullmq', () => ({
+  QueueEvents: jest.fn().mockImplementation(() => queueEvents),
+}));
+
+jest.mock('../../src/services/job.service', () => ({
+  __esModule: true,
+  default: { getJobStatus: jest.fn() },
+}));
+
+jest.mock('../../src/repositories/job-control.repository', () => ({
+  __esModule: true,
+  default: {
+    isCancelRequested: jest.fn().mockResolvedValue(false),
+    isPauseRequested: jest.fn().mockResolvedValue(false),
+  },
+}));
+
+const mockedJobService = jobService as jest.Mocked<typeof jobService>;
+const mockedControl = jobControlRepository as jest.Mocked<
+  typeof jobControlRepository
+>;
+const mockedRedis = redisConnection as unknown as { xrange: jest.Mock };
+
+const progress = (processed: number) => ({
+  processed,
+  failed: 0,
+  total: 1000,
+  percentage: processed / 10,
+});
+
+const snapshot = (status: JobStatus) =>
+  ({ jobId: 'job-1', status, progress: progress(0) }) as JobResult;
+
+// An entry of the events stream as XRANGE returns it
+const entry = (id: string, fields: Record<string, string>) => [
+  id,
+  Object.entries(fields).flat(),
+];
+
+const createRequest = (lastEventId?: string) =>
+  Object.assign(new EventEmitter(), {
+    correlationId: 'test-correlation-id',
+    params: { jobId: 'job-1' },
+    get: (name: string) => (name === 'Last-Event-ID' ? lastEventId : undefined),
+  }) as unknown as Request;
+
+const createResponse = () => {
+  const chunks: string[] = [];
+  const res = {
+    chunks,
+    status: jest.fn(),
+    set: jest.fn(),
+    json: jest.fn(),
+    flushHeaders: jest.fn(),
+    flush: jest.fn(),
+    write: jest.fn((chunk: string) => chunks.push(chunk)),
+    end: jest.fn(),
+  };
+  res.status.mockReturnValue(res);
+  res.set.mockReturnValue(res);
+  return res;
+};
+
+// Lets the events queued by the service reach the response
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('Job event stream', () => {
+  let req: Request;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedJobService.getJobStatus.mockResolvedValue(
+      snapshot(JobStatus.PROCESSING)
+    );
+    mockedRedis.xrange.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    // Stops the heartbeat of a stream a test left open
+    req?.emit('close');
+  });
+
+  const stream = async (lastEventId?: string) => {
+    req = createRequest(lastEventId);
+    const res = createResponse();
+    await jobController.streamEvents(req, res as unknown as Response);
+    return res;
+  };
+
+  it('answers 404 for an unknown job', async () => {
+    mockedJobService.getJobStatus.mockResolvedValue(null);
+
+    const res = await stream();
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.write).not.toHaveBeenCalled();
+    expect(queueEvents.eventNames()).toEqual([]);
+  });
+
+  it('sends a snapshot, then each event framed with its stream ID', async () => {
+    const res = await stream();
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      })
+    );
+    expect(res.flushHeaders).toHaveBeenCalled();
+
+    queueEvents.emit(
+      'progress:job-1',
+      { jobId: 'job-1', data: progress(500) },
+      '1700000000000-3'
+    );
+    await settle();
+
+    expect(res.chunks).toEqual([
+      `event: snapshot\ndata: ${JSON.stringify(snapshot(JobStatus.PROCESSING))}\n\n`,
+      `id: 1700000000000-3\nevent: progress\ndata: ${JSON.stringify(progress(500))}\n\n`,
+    ]);
+    expect(res.end).not.toHaveBeenCalled();
+  });
+
+  it('closes the stream once the job completes', async () => {
+    const res = await stream();
+
+    queueEvents.emit(
+      'completed:job-1',
+      { jobId: 'job-1', returnvalue: { successCount: 1000 } },
+      '1700000000000-4'
+    );
+    await settle();
+
+    expect(res.chunks.at(-1)).toBe(
+      'id: 1700000000000-4\nevent: completed\ndata: {"successCount":1000}\n\n'
+    );
+    expect(res.end).toHaveBeenCalledTimes(1);
+    expect(queueEvents.listenerCount('completed:job-1')).toBe(0);
+  });
+
+  it('reports a cancelled job as cancelled and closes the stream', async () => {
+    mockedControl.isCancelRequested.mockResolvedValue(true);
+    const res = await stream();
+
+    queueEvents.emit(
+      'failed:job-1',
+      { jobId: 'job-1', failedReason: 'Import cancelled' },
+      '1700000000000-5'
+    );
+    await settle();
+
+    expect(res.chunks.at(-1)).toBe(
+      'id: 1700000000000-5\nevent: state\ndata: {"status":"cancelled","event":"failed","error":"Import cancelled"}\n\n'
+    );
+    expect(res.end).toHaveBeenCalledTimes(1);
+    mockedControl.isCancelRequested.mockResolvedValue(false);
+  });
+
+  it('closes straight away when the job finished before it subscribed', async () => {
+    mockedJobService.getJobStatus
+      .mockResolvedValueOnce(snapshot(JobStatus.PROCESSING))
+      .mockResolvedValueOnce(snapshot(JobStatus.COMPLETED));
+
+    const res = await stream();
+
+    expect(res.chunks).toHaveLength(2);
+    expect(res.chunks[1]).toContain('"status":"completed"');
+    expect(res.end).toHaveBeenCalledTimes(1);
+    expect(queueEvents.listenerCount('progress:job-1')).toBe(0);
+  });
+
+  it('replays the events after Last-Event-ID, then continues live', async () => {
+    mockedRedis.xrange.mockImplementation(async () => {
+      // Live events arriving during the replay wait for it to finish
+      queueEvents.emit(
+        'progress:job-1',
+        { jobId: 'job-1', data: progress(500) },
+        '1700000000000-2'
+      );
+      queueEvents.emit(
+        'progress:job-1',
+        { jobId: 'job-1', data: progress(1000) },
+        '1700000000000-6'
+      );
+      return [
+        entry('1700000000000-2', {
+          event: 'progress',
+          jobId: 'job-1',
+          data: JSON.stringify(progress(500)),
+        }),
+        entry('1700000000000-3', {
+          event: 'progress',
+          jobId: 'job-2',
+          data: JSON.stringify(progress(10)),
+        }),
+        entry('1700000000000-4', { event: 'added', jobId: 'job-1' }),
+        entry('1700000000000-5', { event: 'active', jobId: 'job-1' }),
+      ];
+    });
+
+    const res = await stream('1700000000000-1');
+
+    expect(mockedRedis.xrange).toHaveBeenCalledWith(
+      'bull:test-queue:events',
+      '(1700000000000-1',
+      '+',
+      'COUNT',
+      1000
+    );
+    // Each event is sent once, other jobs and unrelayed events are skipped
+    expect(
+      res.chunks.map((chunk) => chunk.match(/^id: (.+)$/m)?.[1] ?? 'snapshot')
+    ).toEqual([
+      'snapshot',
+      '1700000000000-2',
+      '1700000000000-5',
+      '1700000000000-6',
+    ]);
+    expect(res.chunks[2]).toBe(
+      'id: 1700000000000-5\nevent: state\ndata: {"status":"processing","event":"active"}\n\n'
+    );
+  });
+
+  it('ignores a Last-Event-ID that is not a stream ID', async () => {
+    await stream('not-an-id');
+
+    expect(mockedRedis.xrange).not.toHaveBeenCalled();
+  });
+
+  it('closes open streams when the service shuts down', async () => {
+    const res = await stream();
+
+    await jobEventsService.close();
+
+    expect(res.end).toHaveBeenCalledTimes(1);
+    expect(queueEvents.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,558 @@
+import ExcelJS from 'exceljs';
+import sql from 'mssql';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { appConfig } from '../../src/config/app.config';
+import dataRepository from '../../src/repositories/data.repository';
+import importService, {
+  ImportAbortedError,
+} from '../../src/services/import.service';
+import {
+  ColumnMetadata,
+  FailurePolicy,
+  ImportRecord,
+  JobProgress,
+} from '../../src/types';
+import { uploadSchema } from '../../src/validators/upload.validator';
+
+jest.mock('../../src/repositories/data.repository', () => ({
+  __esModule: true,
+  default: {
+    tableExists: jest.fn(),
+    getTableSchema: jest.fn(),
+    bulkInsertWithTVP: jest.fn(),
+    bulkInsert: jest.fn(),
+    mergeWithTVP: jest.fn(),
+    createShadowTable: jest.fn(),
+    replaceFromShadowTable: jest.fn(),
+    dropTable: jest.fn(),
+    beginTransaction: jest.fn(),
+    rollbackTransaction: jest.fn(),
+  },
+}));
+
+const mockedRepository = dataRepository as jest.Mocked<typeof dataRepository>;
+
+const column = (
+  name: string,
+  dataType: string,
+  maxLength: number | null = null
+): ColumnMetadata => ({
+  name,
+  dataType,
+  maxLength,
+  precision: null,
+  scale: null,
+  isNullable: true,
+  hasDefault: false,
+  isIdentity: false,
+  isComputed: false,
+});
+
+const truncationError = 'String or binary data would be truncated';
+
+/**
+ * Write an Id,Name file; the listed ids get the name 'Bad'
+ */
+const writeEmployees = (
+  dir: string,
+  rowCount: number,
+  badIds: number[] = []
+): string => {
+  const filePath = path.join(dir, 'employees.csv');
+  const lines = ['Id,Name'];
+  for (let id = 1; id <= rowCount; id++) {
+    lines.push(`${id},${badIds.includes(id) ? 'Bad' : `Employee ${id}`}`);
+  }
+  fs.writeFileSync(filePath, lines.join('\n'));
+  return filePath;
+};
+
+// Rows SQL Server rejects; the validator cannot tell them apart
+const isBadRow = (record: ImportRecord): boolean => record.Name === 'Bad';
+
+let tempDir: string;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  mockedRepository.tableExists.mockResolvedValue(true);
+  mockedRepository.getTableSchema.mockResolvedValue([
+    column('Id', 'int'),
+    column('Name', 'nvarchar', 50),
+  ]);
+
+  // A batch fails as a whole if it holds any bad row
+  mockedRepository.bulkInsertWithTVP.mockImplementation(
+    async (_tableName, records) => {
+      if (records.some(isBadRow)) {
+        throw new Error(truncationError);
+      }
+      return { inserted: records.length, failed: 0, errors: [] };
+    }
+  );
+  mockedRepository.bulkInsert.mockImplementation(
+    async (_tableName, records) => {
+      const errors = records.flatMap((record, index) =>
+        isBadRow(record) ? [{ row: index + 1, error: truncationError }] : []
+      );
+      return {
+        inserted: records.length - errors.length,
+        failed: errors.length,
+        errors,
+      };
+    }
+  );
+  mockedRepository.mergeWithTVP.mockImplementation(
+    async (_tableName, records) => {
+      if (records.some(isBadRow)) {
+        throw new Error(truncationError);
+      }
+      return {
+        inserted: records.length,
+        updated: 0,
+        unchanged: 0,
+        failed: 0,
+        errors: [],
+      };
+    }
+  );
+
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'import-test-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('Batch bisection', () => {
+  const rowCount = 100;
+  const badIds = [37, 80];
+  let filePath: string;
+
+  beforeEach(() => {
+    filePath = writeEmployees(tempDir, rowCount, badIds);
+  });
+
+  it('splits a failing insert batch and reports only the bad rows', async () => {
+    const result = await importService.processImport(filePath, 'Employees');
+
+    expect(result.successCount).toBe(rowCount - badIds.length);
+    expect(result.insertedCount).toBe(rowCount - badIds.length);
+    expect(result.failedCount).toBe(badIds.length);
+    // File rows are one below the ids, under the header row
+    expect(result.failedRecords).toEqual([
+      expect.objectContaining({ rowNumber: 38, error: truncationError }),
+      expect.objectContaining({ rowNumber: 81, error: truncationError }),
+    ]);
+
+    // Only the small chunks holding a bad row fall back to row by row
+    const rowByRow = mockedRepository.bulkInsert.mock.calls.map(
+      ([, records]) => records
+    );
+    expect(rowByRow).toHaveLength(badIds.length);
+    for (const records of rowByRow) {
+      expect(records.length).toBeLessThanOrEqual(
+        appConfig.batch.bisectThreshold
+      );
+      expect(records.filter(isBadRow)).toHaveLength(1);
+    }
+
+    // Every good row is written exactly once
+    const writtenIds = [
+      ...mockedRepository.bulkInsertWithTVP.mock.calls
+        .filter(([, records]) => !records.some(isBadRow))
+        .flatMap(([, records]) => records),
+      ...rowByRow.flat().filter((record) => !isBadRow(record)),
+    ].map((record) => Number(record.Id));
+    expect(writtenIds.sort((a, b) => a - b)).toEqual(
+      Array.from({ length: rowCount }, (_, i) => i + 1).filter(
+        (id) => !badIds.includes(id)
+      )
+    );
+  });
+
+  it('merges the rows of a failing upsert chunk one at a time', async () => {
+    const result = await importService.processImport(filePath, 'Employees', {
+      mode: 'upsert',
+      keyColumns: ['Id'],
+    });
+
+    expect(result.successCount).toBe(rowCount - badIds.length);
+    expect(result.failedRecords).toEqual([
+      expect.objectContaining({ rowNumber: 38, error: truncationError }),
+      expect.objectContaining({ rowNumber: 81, error: truncationError }),
+    ]);
+    // Merge batches are never handed to the row by row insert
+    expect(mockedRepository.bulkInsert).not.toHaveBeenCalled();
+
+    // Each bad row is tried alone once; every good row is merged once
+    const merges = mockedRepository.mergeWithTVP.mock.calls.map(
+      ([, records]) => records
+    );
+    expect(
+      merges
+        .filter((records) => records.length === 1 && isBadRow(records[0]))
+        .map(([record]) => Number(record.Id))
+    ).toEqual(badIds);
+    const mergedIds = merges
+      .filter((records) => !records.some(isBadRow))
+      .flat()
+      .map((record) => Number(record.Id));
+    expect(mergedIds.sort((a, b) => a - b)).toEqual(
+      Array.from({ length: rowCount }, (_, i) => i + 1).filter(
+        (id) => !badIds.includes(id)
+      )
+    );
+  });
+});
+
+describe('Replace mode', () => {
+  const shadowTable = 'Employees__import_replacejob1';
+
+  beforeEach(() => {
+    mockedRepository.replaceFromShadowTable.mockResolvedValue(0);
+    mockedRepository.dropTable.mockResolvedValue();
+  });
+
+  const replace = (filePath: string) =>
+    importService.processImport(filePath, 'Employees', {
+      jobId: 'replace-job-1',
+      mode: 'replace',
+    });
+
+  it('loads every row into the shadow table before swapping it in', async () => {
+    const result = await replace(writeEmployees(tempDir, 20));
+
+    expect(result.successCount).toBe(20);
+    expect(mockedRepository.createShadowTable).toHaveBeenCalledWith(
+      'Employees',
+      shadowTable,
+      ['Id', 'Name']
+    );
+    expect(
+      mockedRepository.bulkInsertWithTVP.mock.calls.every(
+        ([tableName]) => tableName === shadowTable
+      )
+    ).toBe(true);
+    expect(mockedRepository.replaceFromShadowTable).toHaveBeenCalledWith(
+      'Employees',
+      shadowTable,
+      ['Id', 'Name']
+    );
+  });
+
+  it('leaves the target untouched when a row fails to load', async () => {
+    const error = await replace(writeEmployees(tempDir, 20, [7])).catch(
+      (err) => err
+    );
+
+    // Aborted rather than failed, so the job is not retried
+    expect(error).toBeInstanceOf(ImportAbortedError);
+    expect(error.message).toBe(
+      'Replace aborted: 1 rows failed to load; Employees was left unchanged'
+    );
+    expect(mockedRepository.replaceFromShadowTable).not.toHaveBeenCalled();
+    expect(mockedRepository.dropTable).toHaveBeenCalledWith(shadowTable);
+  });
+
+  it('leaves the target untouched when the file has no rows', async () => {
+    const filePath = path.join(tempDir, 'empty.csv');
+    fs.writeFileSync(filePath, 'Id,Name\n');
+
+    const error = await replace(filePath).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ImportAbortedError);
+    expect(error.message).toBe(
+      'Replace aborted: the file has no rows; Employees was left unchanged'
+    );
+    expect(mockedRepository.replaceFromShadowTable).not.toHaveBeenCalled();
+    expect(mockedRepository.dropTable).toHaveBeenCalledWith(shadowTable);
+  });
+
+  it('aborts when the swap is refused for rows other tables reference', async () => {
+    mockedRepository.replaceFromShadowTable.mockRejectedValue(
+      Object.assign(
+        new Error(
+          'The DELETE statement conflicted with the REFERENCE constraint "FK_Teams_Employees"'
+        ),
+        { number: 547 }
+      )
+    );
+
+    const error = await replace(writeEmployees(tempDir, 20)).catch(
+      (err) => err
+    );
+
+    expect(error).toBeInstanceOf(ImportAbortedError);
+    expect(error.message).toMatch(
+      /^Replace aborted: The DELETE statement conflicted .*; Employees was left unchanged$/
+    );
+    expect(mockedRepository.dropTable).toHaveBeenCalledWith(shadowTable);
+  });
+
+  it('retries a swap that failed for another reason', async () => {
+    mockedRepository.replaceFromShadowTable.mockRejectedValue(
+      Object.assign(new Error('Transaction was deadlocked'), { number: 1205 })
+    );
+
+    const error = await replace(writeEmployees(tempDir, 20)).catch(
+      (err) => err
+    );
+
+    expect(error).not.toBeInstanceOf(ImportAbortedError);
+    expect(error.message).toBe('Transaction was deadlocked');
+  });
+});
+
+describe('Atomic imports', () => {
+  const transaction = { commit: jest.fn() } as unknown as sql.Transaction;
+
+  beforeEach(() => {
+    mockedRepository.beginTransaction.mockResolvedValue(transaction);
+    mockedRepository.rollbackTransaction.mockResolvedValue();
+  });
+
+  it('rolls back earlier batches when a late batch fails', async () => {
+    // Batches of 500 rows; the bad row is in the third
+    const filePath = writeEmployees(tempDir, 1200, [1100]);
+
+    await expect(
+      importService.processImport(filePath, 'Employees', { atomic: true })
+    ).rejects.toThrow(`Atomic import rolled back: ${truncationError}`);
+
+    const writes = mockedRepository.bulkInsertWithTVP.mock.calls;
+    expect(writes.map(([, records]) => records.length)).toEqual([
+      500, 500, 200,
+    ]);
+    expect(writes.every(([, , , , used]) => used === transaction)).toBe(true);
+    // Nothing is bisected or retried row by row inside the transaction
+    expect(mockedRepository.bulkInsert).not.toHaveBeenCalled();
+    expect(mockedRepository.rollbackTransaction).toHaveBeenCalledWith(
+      transaction
+    );
+    expect(transaction.commit).not.toHaveBeenCalled();
+  });
+
+  it('commits every sheet of a workbook once', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const addSheet = (name: string, rowCount: number) => {
+      const sheet = workbook.addWorksheet(name);
+      sheet.addRow(['Id', 'Name']);
+      for (let id = 1; id <= rowCount; id++) {
+        sheet.addRow([id, `${name} ${id}`]);
+      }
+    };
+    addSheet('Departments', 3);
+    addSheet('Employees', 600);
+    const filePath = path.join(tempDir, 'company.xlsx');
+    await workbook.xlsx.writeFile(filePath);
+
+    const result = await importService.processWorkbook(
+      filePath,
+      [
+        { sheetName: 'Departments', tableName: 'Departments' },
+        { sheetName: 'Employees', tableName: 'Employees' },
+      ],
+      undefined,
+      { atomic: true }
+    );
+
+    expect(result.successCount).toBe(603);
+    expect(mockedRepository.beginTransaction).toHaveBeenCalledTimes(1);
+    expect(transaction.commit).toHaveBeenCalledTimes(1);
+    const writes = mockedRepository.bulkInsertWithTVP.mock.calls;
+    expect(writes.map(([tableName]) => tableName)).toEqual([
+      'Departments',
+      'Employees',
+      'Employees',
+    ]);
+    expect(writes.every(([, , , , used]) => used === transaction)).toBe(true);
+  });
+
+  it('refuses to run a replace import atomically', async () => {
+    const filePath = writeEmployees(tempDir, 10);
+
+    await expect(
+      importService.processImport(filePath, 'Employees', {
+        mode: 'replace',
+        atomic: true,
+      })
+    ).rejects.toThrow(
+      'Atomic import rolled back: Replace imports cannot run atomically'
+    );
+    expect(mockedRepository.createShadowTable).not.toHaveBeenCalled();
+    expect(mockedRepository.bulkInsertWithTVP).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['the import', { tableName: 'Employees', mode: 'replace' }],
+    [
+      'any sheet',
+      {
+        sheets: JSON.stringify([
+          { sheetName: 'Departments', tableName: 'Departments' },
+          { sheetName: 'Employees', tableName: 'Employees', mode: 'replace' },
+        ]),
+      },
+    ],
+  ])('rejects atomic uploads when %s uses replace', (_case, body) => {
+    const { error } = uploadSchema.validate({ ...body, atomic: true });
+
+    expect(error?.details.map((detail) => detail.message)).toEqual([
+      'Replace imports cannot run atomically',
+    ]);
+  });
+});
+
+describe('Failure policy', () => {
+  // Files of 1500 rows are read in three batches of 500
+  const policyImport = (badIds: number[], policy: FailurePolicy) =>
+    importService.processImport(
+      writeEmployees(tempDir, 1500, badIds),
+      'Employees',
+      policy
+    );
+
+  const writtenIds = (): number[] =>
+    [
+      ...mockedRepository.bulkInsertWithTVP.mock.calls,
+      ...mockedRepository.bulkInsert.mock.calls,
+    ].flatMap(([, records]) =>
+      records.filter((record) => !isBadRow(record)).map((r) => Number(r.Id))
+    );
+
+  it('aborts at the batch that takes the failed rows past maxFailedRows', async () => {
+    const error = await policyImport([10, 20, 600, 700, 1200], {
+      maxFailedRows: 2,
+    }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ImportAbortedError);
+    expect(error.message).toBe(
+      'Import aborted: 4 failed rows exceed the limit of 2; 996 rows already written were kept'
+    );
+    // The third batch is never written
+    expect(Math.max(...writtenIds())).toBe(1000);
+  });
+
+  it('completes with failed rows up to maxFailedRows', async () => {
+    const result = await policyImport([10, 20], { maxFailedRows: 2 });
+
+    expect(result.failedCount).toBe(2);
+    expect(result.successCount).toBe(1498);
+  });
+
+  it('aborts on the failed share of the rows read so far', async () => {
+    // 3 of the first 500 rows is 0.6%, though it would be 0.2% of the file
+    const error = await policyImport([10, 20, 30], {
+      maxFailedPercentage: 0.5,
+    }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ImportAbortedError);
+    expect(error.message).toBe(
+      'Import aborted: 0.6% of 500 processed rows failed, above the limit of 0.5%; 497 rows already written were kept'
+    );
+    expect(Math.max(...writtenIds())).toBe(500);
+  });
+
+  it('stops at the batch holding the first failed row with stopOnFirstError', async () => {
+    const error = await policyImport([600, 700], {
+      stopOnFirstError: true,
+    }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ImportAbortedError);
+    expect(error.message).toBe(
+      `Import aborted: Row 601 failed: ${truncationError}; 998 rows already written were kept`
+    );
+    expect(Math.max(...writtenIds())).toBe(1000);
+  });
+});
+
+describe('Progress', () => {
+  let clock: jest.SpyInstance<number, []>;
+  let now: number;
+
+  beforeEach(() => {
+    // Each batch write takes the next of these many milliseconds
+    const writeTimes = [1000, 1000, 90000, 1000];
+    now = 0;
+    clock = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    mockedRepository.bulkInsertWithTVP.mockImplementation(
+      async (_tableName, records) => {
+        now += writeTimes.shift() ?? 0;
+        return { inserted: records.length, failed: 0, errors: [] };
+      }
+    );
+  });
+
+  afterEach(() => {
+    clock.mockRestore();
+  });
+
+  it('reports batches, throughput over the last minute and the time left', async () => {
+    const updates: JobProgress[] = [];
+
+    const result = await importService.processImport(
+      writeEmployees(tempDir, 2000),
+      'Employees',
+      { totalRecords: 2000 },
+      (progress) => updates.push(progress)
+    );
+
+    expect(
+      updates.map(
+        ({
+          processed,
+          percentage,
+          currentBatch,
+          totalBatches,
+          recordsPerSecond,
+          estimatedTimeRemaining,
+        }) => ({
+          processed,
+          percentage,
+          currentBatch,
+          totalBatches,
+          recordsPerSecond,
+          estimatedTimeRemaining,
+        })
+      )
+    ).toEqual([
+      {
+        processed: 500,
+        percentage: 25,
+        currentBatch: 1,
+        totalBatches: 4,
+        recordsPerSecond: 500,
+        estimatedTimeRemaining: 3000,
+      },
+      {
+        processed: 1000,
+        percentage: 50,
+        currentBatch: 2,
+        totalBatches: 4,
+        recordsPerSecond: 500,
+        estimatedTimeRemaining: 2000,
+      },
+      // The slow batch alone is left in the window
+      {
+        processed: 1500,
+        percentage: 75,
+        currentBatch: 3,
+        totalBatches: 4,
+        recordsPerSecond: 5.6,
+        estimatedTimeRemaining: 89286,
+      },
+      {
+        processed: 2000,
+        percentage: 100,
+        currentBatch: 4,
+        totalBatches: 4,
+        recordsPerSecond: 11,
+        estimatedTimeRemaining: 0,
+      },
+    ]);
+    // The result averages over the whole attempt
+    expect(result.recordsPerSecond).toBe(21.5);
+  });
+});
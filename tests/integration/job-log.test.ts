@@ -0,0 +1,76 @@
+import jobLogRepository from '../../src/repositories/job-log.repository';
+import { JobLogTransport } from '../../src/utils/job-log.transport';
+
+jest.mock('../../src/repositories/job-log.repository', () => ({
+  __esModule: true,
+  default: { append: jest.fn().mockResolvedValue(undefined) },
+}));
+
+const mockedRepository = jobLogRepository as jest.Mocked<
+  typeof jobLogRepository
+>;
+
+// Entries are written once per tick
+const flushed = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('Job log transport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('stores entries tagged with a job with primitive metadata only', async () => {
+    const transport = new JobLogTransport();
+    const circular: Record<string, unknown> = { name: 'loop' };
+    circular.self = circular;
+    const next = jest.fn();
+
+    transport.log(
+      {
+        level: 'warn',
+        message: 'Batch slowed down',
+        jobId: 'job-1',
+        correlationId: 'test-correlation-id',
+        service: 'excel-import-microservice',
+        batch: 3,
+        retried: false,
+        sheetName: null,
+        counts: { inserted: 500, failed: 0 },
+        columns: ['Id', 'Name'],
+        error: new Error('Deadlock victim'),
+        startedAt: new Date('2025-01-15T10:30:00.000Z'),
+        circular,
+      },
+      next
+    );
+    await flushed();
+
+    expect(next).toHaveBeenCalled();
+    expect(mockedRepository.append).toHaveBeenCalledWith('job-1', [
+      {
+        timestamp: expect.any(Date),
+        level: 'warn',
+        message: 'Batch slowed down',
+        correlationId: 'test-correlation-id',
+        metadata: {
+          batch: 3,
+          retried: false,
+          sheetName: null,
+          counts: '{"inserted":500,"failed":0}',
+          columns: '["Id","Name"]',
+          error: 'Deadlock victim',
+          startedAt: '2025-01-15T10:30:00.000Z',
+          circular: '[object Object]',
+        },
+      },
+    ]);
+  });
+
+  it('skips entries without a job', async () => {
+    const transport = new JobLogTransport();
+
+    transport.log({ level: 'info', message: 'Server started' }, jest.fn());
+    await flushed();
+
+    expect(mockedRepository.append).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,171 @@
+import { Queue } from 'bullmq';
+import { appConfig } from '../../src/config/app.config';
+import jobHistoryRepository from '../../src/repositories/job-history.repository';
+import jobService from '../../src/services/job.service';
+import { JobData, JobPriority } from '../../src/types';
+import { uploadSchema } from '../../src/validators/upload.validator';
+
+jest.mock('../../src/config/queue.config', () => ({
+  queueConfig: { name: 'test-queue' },
+  queueOptions: {},
+  redisConnection: {},
+}));
+
+jest.mock('../../src/config/database.config', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({ connect: jest.fn(), getPool: jest.fn() }),
+  },
+}));
+
+jest.mock('bullmq', () => ({
+  ...jest.requireActual('bullmq'),
+  Queue: jest.fn().mockImplementation(() => ({
+    add: jest.fn(async (_name, _data, opts) => ({
+      id: opts.jobId,
+      opts: { attempts: opts.attempts ?? 3 },
+    })),
+    on: jest.fn(),
+  })),
+}));
+
+jest.mock('../../src/repositories/job-history.repository', () => ({
+  __esModule: true,
+  default: { create: jest.fn() },
+}));
+
+// The queue the job service opened when it was imported
+const [{ value: queue }] = (Queue as unknown as jest.Mock).mock.results;
+const mockedHistory = jobHistoryRepository as jest.Mocked<
+  typeof jobHistoryRepository
+>;
+
+const jobData: JobData = {
+  jobId: 'job-1',
+  fileName: 'employees.csv',
+  filePath: '/tmp/uploads/employees.csv',
+  tableName: 'Employees',
+  totalRecords: 10,
+  correlationId: 'test-correlation-id',
+  createdAt: new Date(),
+};
+
+describe('Queue options of a job', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each([
+    [JobPriority.CRITICAL, 1],
+    [JobPriority.HIGH, 11],
+    [JobPriority.NORMAL, 16],
+    [JobPriority.LOW, 20],
+  ])(
+    'maps priority %i to BullMQ priority %i, where lower runs first',
+    async (priority, queuePriority) => {
+      await jobService.addJob(jobData, { priority });
+
+      expect(queue.add).toHaveBeenCalledWith(
+        'import-excel',
+        expect.objectContaining({ priority }),
+        expect.objectContaining({ priority: queuePriority })
+      );
+    }
+  );
+
+  it('passes delay, attempts and backoff on and keeps the timeout with the job', async () => {
+    await jobService.addJob(jobData, {
+      delay: 60000,
+      attempts: 5,
+      backoff: { type: 'fixed', delay: 1000 },
+      timeout: 30000,
+    });
+
+    expect(queue.add).toHaveBeenCalledWith(
+      'import-excel',
+      { ...jobData, priority: JobPriority.NORMAL, timeout: 30000 },
+      {
+        jobId: 'job-1',
+        priority: 16,
+        delay: 60000,
+        attempts: 5,
+        backoff: { type: 'fixed', delay: 1000 },
+        removeOnComplete: false,
+        removeOnFail: false,
+      }
+    );
+  });
+
+  it('leaves unset options to the queue defaults', async () => {
+    await jobService.addJob(jobData);
+
+    const [[, , opts]] = queue.add.mock.calls;
+    expect(opts).not.toHaveProperty('delay');
+    expect(opts).not.toHaveProperty('attempts');
+    expect(opts).not.toHaveProperty('backoff');
+  });
+
+  it('queues the job even when the history cannot record it', async () => {
+    mockedHistory.create.mockRejectedValueOnce(new Error('Login failed'));
+
+    await expect(jobService.addJob(jobData)).resolves.toBe('job-1');
+  });
+});
+
+describe('Queue options of an upload', () => {
+  const body = { tableName: 'Employees' };
+  const messages = (fields: Record<string, unknown>) =>
+    uploadSchema
+      .validate({ ...body, ...fields }, { abortEarly: false })
+      .error?.details.map((detail) => detail.message);
+
+  it('accepts options within the server caps', () => {
+    const { value, error } = uploadSchema.validate({
+      ...body,
+      priority: 'HIGH',
+      attempts: '3',
+      backoff: '{"type":"exponential","delay":5000}',
+      timeout: '60000',
+    });
+
+    expect(error).toBeUndefined();
+    expect(value).toMatchObject({
+      priority: 'high',
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 5000 },
+      timeout: 60000,
+    });
+  });
+
+  it.each([
+    [{ priority: 'urgent' }, 'Priority must be low, normal, high or critical'],
+    [
+      { attempts: appConfig.job.maxAttempts + 1 },
+      `Attempts must be between 1 and ${appConfig.job.maxAttempts}`,
+    ],
+    [
+      { delay: appConfig.job.maxDelay + 1 },
+      `Delay cannot exceed ${appConfig.job.maxDelay}ms`,
+    ],
+    [
+      {
+        backoff: JSON.stringify({
+          type: 'fixed',
+          delay: appConfig.job.maxBackoffDelay + 1,
+        }),
+      },
+      `Backoff delay cannot exceed ${appConfig.job.maxBackoffDelay}ms`,
+    ],
+    [{ timeout: 500 }, 'Timeout must be at least 1000ms'],
+    [
+      { delay: 1000, scheduledAt: new Date(Date.now() + 60000).toISOString() },
+      'Use either delay or scheduledAt, not both',
+    ],
+    [
+      { scheduledAt: new Date(Date.now() - 60000).toISOString() },
+      'Scheduled start must be in the future',
+    ],
+  ])('rejects %j', (fields, message) => {
+    expect(messages(fields)).toEqual([message]);
+  });
+});
@@ -0,0 +1,104 @@
+import jobHistoryRepository from '../../src/repositories/job-history.repository';
+
+const inputs = new Map<string, unknown>();
+const statements: string[] = [];
+let recordset: Record<string, unknown>[] = [];
+
+const request = {
+  input: (name: string, _type: unknown, value: unknown) => {
+    inputs.set(name, value);
+    return request;
+  },
+  query: async (statement: string) => {
+    statements.push(statement.replace(/\s+/g, ' ').trim());
+    return { recordset };
+  },
+};
+
+jest.mock('../../src/config/database.config', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({ getPool: () => ({ request: () => request }) }),
+  },
+}));
+
+describe('Job statistics', () => {
+  beforeEach(() => {
+    inputs.clear();
+    statements.length = 0;
+  });
+
+  it('turns the aggregate row into statistics', async () => {
+    // BIGINT sums arrive as strings
+    recordset = [
+      {
+        TotalJobs: 12,
+        PendingJobs: 2,
+        ActiveJobs: 1,
+        CompletedJobs: 8,
+        FailedJobs: 1,
+        AverageDuration: 15234.6,
+        RecordsProcessed: '125000',
+        CompletedRecords: '120000',
+        CompletedSucceeded: '119123',
+      },
+    ];
+
+    await expect(jobHistoryRepository.getStatistics({})).resolves.toEqual({
+      totalJobs: 12,
+      pendingJobs: 2,
+      activeJobs: 1,
+      completedJobs: 8,
+      failedJobs: 1,
+      averageProcessingTime: 15235,
+      totalRecordsProcessed: 125000,
+      successRate: 99.27,
+    });
+    expect(statements[0]).toMatch(/FROM ImportAuditLog$/);
+  });
+
+  it('reports zeros for an empty history', async () => {
+    recordset = [
+      {
+        TotalJobs: 0,
+        PendingJobs: null,
+        ActiveJobs: null,
+        CompletedJobs: null,
+        FailedJobs: null,
+        AverageDuration: null,
+        RecordsProcessed: null,
+        CompletedRecords: null,
+        CompletedSucceeded: null,
+      },
+    ];
+
+    await expect(jobHistoryRepository.getStatistics({})).resolves.toEqual({
+      totalJobs: 0,
+      pendingJobs: 0,
+      activeJobs: 0,
+      completedJobs: 0,
+      failedJobs: 0,
+      averageProcessingTime: 0,
+      totalRecordsProcessed: 0,
+      successRate: 0,
+    });
+  });
+
+  it('scopes the aggregates like the job list', async () => {
+    recordset = [{ TotalJobs: 0 }];
+    const startDate = new Date('2025-01-01T00:00:00.000Z');
+
+    await jobHistoryRepository.getStatistics({
+      startDate,
+      tableName: 'Employees',
+      userId: 'user-1',
+    });
+
+    expect(statements[0]).toContain(
+      "WHERE CreatedAt >= @startDate AND CHARINDEX(',' + @tableName + ',', ',' + TableName + ',') > 0 AND UserId = @userId"
+    );
+    expect(inputs.get('startDate')).toBe(startDate);
+    expect(inputs.get('tableName')).toBe('Employees');
+    expect(inputs.get('userId')).toBe('user-1');
+  });
+});
@@ -0,0 +1,239 @@
+import sql from 'mssql';
+import dataRepository from '../../src/repositories/data.repository';
+import { ColumnMetadata, ImportRecord } from '../../src/types';
+
+type Row = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for the statements mergeWithTVP sends: it creates
+ * and fills #ImportStaging, then applies the MERGE clauses it was given
+ */
+class FakeDatabase {
+  target: Row[] = [];
+  staging?: Row[];
+  statements: string[] = [];
+  committed = false;
+
+  transaction() {
+    return {
+      begin: jest.fn(),
+      commit: jest.fn(async () => {
+        this.committed = true;
+      }),
+      rollback: jest.fn(),
+      request: () => ({
+        query: async (statement: string) => this.query(statement),
+        bulk: async (table: sql.Table) => this.bulk(table),
+      }),
+    };
+  }
+
+  private async query(statement: string) {
+    this.statements.push(statement.replace(/\s+/g, ' ').trim());
+
+    if (/INTO #ImportStaging/.test(statement)) {
+      this.staging = [];
+    } else if (/^\s*MERGE/.test(statement)) {
+      return { recordset: this.merge(statement) };
+    } else if (/DROP TABLE #ImportStaging/.test(statement)) {
+      this.staging = undefined;
+    }
+    return { recordset: [] };
+  }
+
+  private bulk(table: sql.Table): void {
+    if (table.name !== '#ImportStaging' || !this.staging) {
+      throw new Error(`Invalid object name '${table.name}'`);
+    }
+    const names = table.columns.map((col) => col.name);
+    for (const values of table.rows) {
+      this.staging.push(
+        Object.fromEntries(names.map((name, i) => [name, values[i]]))
+      );
+    }
+  }
+
+  private merge(statement: string): Array<{ action: string }> {
+    const columnsOf = (clause = '') =>
+      [...clause.matchAll(/t\.\[(\w+)\] = s\.\[\1\]/g)].map(
+        (match) => match[1]
+      );
+    const keys = columnsOf(/ON (.*?) (WHEN|OUTPUT)/s.exec(statement)?.[1]);
+    const updates = columnsOf(
+      /UPDATE SET (.*?) (WHEN|OUTPUT)/s.exec(statement)?.[1]
+    );
+    const onlyChanged = /WHEN MATCHED AND EXISTS/.test(statement);
+    const inserts = /WHEN NOT MATCHED BY TARGET THEN INSERT/.test(
+      statement.replace(/\s+/g, ' ')
+    );
+
+    const output: Array<{ action: string }> = [];
+    for (const source of this.staging ?? []) {
+      const match = this.target.find((row) =>
+        keys.every((key) => row[key] === source[key])
+      );
+      if (match) {
+        const changed = updates.some((col) => match[col] !== source[col]);
+        if (updates.length > 0 && (changed || !onlyChanged)) {
+          updates.forEach((col) => (match[col] = source[col]));
+          output.push({ action: 'UPDATE' });
+        }
+      } else if (inserts) {
+        this.target.push({ ...source });
+        output.push({ action: 'INSERT' });
+      }
+    }
+    return output;
+  }
+}
+
+const fakeDatabase = new FakeDatabase();
+
+jest.mock('../../src/config/database.config', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({ getPool: () => fakeDatabase }),
+  },
+}));
+
+const column = (
+  name: string,
+  dataType: string,
+  isNullable = true
+): ColumnMetadata => ({
+  name,
+  dataType,
+  maxLength: dataType === 'nvarchar' ? 50 : null,
+  precision: null,
+  scale: null,
+  isNullable,
+  hasDefault: false,
+  isIdentity: false,
+  isComputed: false,
+});
+
+const tableColumns = [
+  column('EmployeeCode', 'nvarchar', false),
+  column('Name', 'nvarchar'),
+  column('Salary', 'int'),
+];
+
+// Rows as the file readers yield them
+const records: ImportRecord[] = [
+  { EmployeeCode: 'E1', Name: 'Ana', Salary: '5500' }, // Salary changed
+  { EmployeeCode: 'E2', Name: 'Bo', Salary: '4000' }, // Same as stored
+  { EmployeeCode: 'E3', Name: 'Cy', Salary: '3000' }, // Not stored yet
+];
+
+describe('Merge through #ImportStaging', () => {
+  beforeEach(() => {
+    fakeDatabase.target = [
+      { EmployeeCode: 'E1', Name: 'Ana', Salary: 5000 },
+      { EmployeeCode: 'E2', Name: 'Bo', Salary: 4000 },
+    ];
+    fakeDatabase.staging = undefined;
+    fakeDatabase.statements = [];
+    fakeDatabase.committed = false;
+  });
+
+  it('updates only changed rows and inserts the rest in upsert mode', async () => {
+    const result = await dataRepository.mergeWithTVP(
+      'Employees',
+      records,
+      tableColumns,
+      ['EmployeeCode'],
+      'upsert'
+    );
+
+    expect(result).toEqual({
+      inserted: 1,
+      updated: 1,
+      unchanged: 1,
+      failed: 0,
+      errors: [],
+    });
+    expect(fakeDatabase.target).toEqual([
+      { EmployeeCode: 'E1', Name: 'Ana', Salary: 5500 },
+      { EmployeeCode: 'E2', Name: 'Bo', Salary: 4000 },
+      { EmployeeCode: 'E3', Name: 'Cy', Salary: 3000 },
+    ]);
+
+    // Staged, merged and dropped within one committed transaction
+    expect(fakeDatabase.statements).toEqual([
+      expect.stringMatching(
+        /^SELECT TOP 0 \[EmployeeCode\], \[Name\], \[Salary\] INTO #ImportStaging FROM Employees$/
+      ),
+      expect.stringMatching(
+        /^MERGE Employees WITH \(HOLDLOCK\) AS t USING #ImportStaging AS s ON t\.\[EmployeeCode\] = s\.\[EmployeeCode\]/
+      ),
+      'DROP TABLE #ImportStaging',
+    ]);
+    expect(fakeDatabase.staging).toBeUndefined();
+    expect(fakeDatabase.committed).toBe(true);
+  });
+
+  it('never inserts in update-only mode', async () => {
+    const result = await dataRepository.mergeWithTVP(
+      'Employees',
+      records,
+      tableColumns,
+      ['EmployeeCode'],
+      'update-only'
+    );
+
+    // The unmatched row counts as unchanged
+    expect(result).toEqual({
+      inserted: 0,
+      updated: 1,
+      unchanged: 2,
+      failed: 0,
+      errors: [],
+    });
+    expect(fakeDatabase.target).toEqual([
+      { EmployeeCode: 'E1', Name: 'Ana', Salary: 5500 },
+      { EmployeeCode: 'E2', Name: 'Bo', Salary: 4000 },
+    ]);
+    expect(fakeDatabase.statements[1]).not.toContain('INSERT');
+  });
+
+  it('stages an identity key column without its IDENTITY property', async () => {
+    fakeDatabase.target = [{ EmployeeId: 7, Name: 'Ana' }];
+
+    const result = await dataRepository.mergeWithTVP(
+      'Employees',
+      [{ EmployeeId: '7', Name: 'Ann' }],
+      [
+        { ...column('EmployeeId', 'int', false), isIdentity: true },
+        column('Name', 'nvarchar'),
+      ],
+      ['EmployeeId'],
+      'update-only'
+    );
+
+    expect(result.updated).toBe(1);
+    expect(fakeDatabase.target).toEqual([{ EmployeeId: 7, Name: 'Ann' }]);
+    // A plain SELECT INTO would make the staged key generate its own values
+    expect(fakeDatabase.statements[0]).toBe(
+      'SELECT TOP 0 CAST([EmployeeId] AS int) AS [EmployeeId], [Name] INTO #ImportStaging FROM Employees'
+    );
+  });
+
+  it('reports rows that cannot be staged without merging them', async () => {
+    const result = await dataRepository.mergeWithTVP(
+      'Employees',
+      [records[0], { EmployeeCode: 'E4', Name: 'Di', Salary: 'lots' }],
+      tableColumns,
+      ['EmployeeCode'],
+      'upsert'
+    );
+
+    expect(result).toEqual({
+      inserted: 0,
+      updated: 1,
+      unchanged: 0,
+      failed: 1,
+      errors: [{ row: 2, error: expect.stringContaining('Column Salary') }],
+    });
+    expect(fakeDatabase.target).toHaveLength(2);
+  });
+});
@@ -0,0 +1,284 @@
+import { DelayedError } from 'bullmq';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { appConfig } from '../../src/config/app.config';
+import dataRepository from '../../src/repositories/data.repository';
+import jobControlRepository from '../../src/repositories/job-control.repository';
+import jobHistoryRepository from '../../src/repositories/job-history.repository';
+import jobService from '../../src/services/job.service';
+import { JobData, JobStatus } from '../../src/types';
+import { startWorker } from '../../src/workers/import.worker';
+
+type Processor = (job: unknown, token?: string) => Promise<unknown>;
+
+jest.mock('../../src/config/queue.config', () => ({
+  queueConfig: { name: 'test-queue' },
+  queueOptions: {},
+  workerOptions: {},
+  redisConnection: {},
+}));
+
+jest.mock('../../src/config/database.config', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({ connect: jest.fn(), getPool: jest.fn() }),
+  },
+}));
+
+let processor: Processor;
+const queuedJob = { getState: jest.fn(), promote: jest.fn(), data: {} };
+jest.mock('bullmq', () => ({
+  ...jest.requireActual('bullmq'),
+  Queue: jest.fn().mockImplementation(() => ({
+    getJob: jest.fn(async (jobId: string) =>
+      jobId === 'missing' ? undefined : queuedJob
+    ),
+    on: jest.fn(),
+  })),
+  Worker: jest.fn().mockImplementation((_name: string, fn: Processor) => {
+    processor = fn;
+    return { on: jest.fn(), close: jest.fn() };
+  }),
+}));
+
+jest.mock('../../src/repositories/job-control.repository', () => ({
+  __esModule: true,
+  default: {
+    requestPause: jest.fn(),
+    clearPause: jest.fn(),
+    isPauseRequested: jest.fn(),
+    isQueuePaused: jest.fn().mockResolvedValue(false),
+    isCancelRequested: jest.fn().mockResolvedValue(false),
+  },
+}));
+
+jest.mock('../../src/repositories/job-history.repository', () => ({
+  __esModule: true,
+  default: { update: jest.fn() },
+}));
+
+jest.mock('../../src/repositories/failed-record.repository', () => ({
+  __esModule: true,
+  default: {
+    truncate: jest.fn().mockResolvedValue(undefined),
+    append: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/repositories/data.repository', () => ({
+  __esModule: true,
+  default: {
+    tableExists: jest.fn().mockResolvedValue(true),
+    getTableSchema: jest.fn().mockResolvedValue(
+      [
+        ['Id', 'int', null],
+        ['Name', 'nvarchar', 50],
+      ].map(([name, dataType, maxLength]) => ({
+        name,
+        dataType,
+        maxLength,
+        precision: null,
+        scale: null,
+        isNullable: true,
+        hasDefault: false,
+        isIdentity: false,
+        isComputed: false,
+      }))
+    ),
+    bulkInsertWithTVP: jest.fn(async (_tableName, records) => ({
+      inserted: records.length,
+      failed: 0,
+      errors: [],
+    })),
+  },
+}));
+
+const mockedControl = jobControlRepository as jest.Mocked<
+  typeof jobControlRepository
+>;
+const mockedHistory = jobHistoryRepository as jest.Mocked<
+  typeof jobHistoryRepository
+>;
+const mockedRepository = dataRepository as jest.Mocked<typeof dataRepository>;
+
+describe('Pausing and resuming a job', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queuedJob.data = {};
+  });
+
+  it('flags an active job for the worker', async () => {
+    queuedJob.getState.mockResolvedValue('active');
+
+    await expect(jobService.pauseJob('job-1')).resolves.toBeNull();
+    expect(mockedControl.requestPause).toHaveBeenCalledWith('job-1');
+  });
+
+  it.each([
+    ['an unknown job', 'missing', {}, 'Job missing not found'],
+    ['a finished job', 'job-1', {}, 'Job job-1 has already finished'],
+    [
+      'an atomic job',
+      'job-1',
+      { atomic: true },
+      'Atomic and replace imports cannot be paused because they cannot resume part-way',
+    ],
+    [
+      'a replace job',
+      'job-1',
+      { mode: 'replace' },
+      'Atomic and replace imports cannot be paused because they cannot resume part-way',
+    ],
+  ])('refuses to pause %s', async (_case, jobId, data, message) => {
+    queuedJob.getState.mockResolvedValue(
+      message.includes('finished') ? 'completed' : 'active'
+    );
+    queuedJob.data = data;
+
+    await expect(jobService.pauseJob(jobId)).resolves.toBe(message);
+    expect(mockedControl.requestPause).not.toHaveBeenCalled();
+  });
+
+  it('promotes a parked job on resume and marks it pending', async () => {
+    mockedControl.clearPause.mockResolvedValue(true);
+    queuedJob.getState.mockResolvedValue('delayed');
+
+    await expect(jobService.resumeJob('job-1')).resolves.toBeNull();
+
+    expect(mockedControl.clearPause).toHaveBeenCalledWith('job-1');
+    expect(queuedJob.promote).toHaveBeenCalled();
+    expect(mockedHistory.update).toHaveBeenCalledWith('job-1', {
+      status: JobStatus.PENDING,
+    });
+  });
+
+  it('leaves a job that has not parked yet where it is', async () => {
+    mockedControl.clearPause.mockResolvedValue(true);
+    queuedJob.getState.mockResolvedValue('active');
+
+    await expect(jobService.resumeJob('job-1')).resolves.toBeNull();
+    expect(queuedJob.promote).not.toHaveBeenCalled();
+  });
+
+  it('refuses to resume a job that is not paused', async () => {
+    mockedControl.clearPause.mockResolvedValue(false);
+
+    await expect(jobService.resumeJob('job-1')).resolves.toBe(
+      'Job job-1 is not paused'
+    );
+    expect(queuedJob.promote).not.toHaveBeenCalled();
+    expect(mockedHistory.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('Paused jobs in the worker', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  // The job BullMQ hands the worker again once it is promoted
+  const createJob = () => {
+    const job = {
+      data: {
+        jobId: 'job-1',
+        fileName: 'employees.csv',
+        filePath,
+        tableName: 'Employees',
+        totalRecords: 1200,
+        correlationId: 'test-correlation-id',
+        createdAt: new Date(),
+      } as JobData,
+      attemptsMade: 0,
+      updateProgress: jest.fn().mockResolvedValue(undefined),
+      updateData: jest.fn(async (data: JobData) => {
+        job.data = data;
+      }),
+      moveToDelayed: jest.fn().mockResolvedValue(undefined),
+    };
+    return job;
+  };
+
+  const insertedIds = (call: number) =>
+    mockedRepository.bulkInsertWithTVP.mock.calls[call][1].map(
+      (record) => record.Id
+    );
+
+  beforeAll(async () => {
+    await startWorker();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pause-test-'));
+    filePath = path.join(tempDir, 'employees.csv');
+    const lines = ['Id,Name'];
+    for (let id = 1; id <= 1200; id++) {
+      lines.push(`${id},Employee ${id}`);
+    }
+    fs.writeFileSync(filePath, lines.join('\n'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('parks a paused job and resumes it after its checkpoint', async () => {
+    // Checked before the job starts and before each batch, then by the park
+    mockedControl.isPauseRequested
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(false)
+      .mockResolvedValue(true);
+    const job = createJob();
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    try {
+      await expect(processor(job, 'token-1')).rejects.toBeInstanceOf(
+        DelayedError
+      );
+    } finally {
+      clock.mockRestore();
+    }
+
+    expect(job.moveToDelayed).toHaveBeenCalledWith(
+      now + appConfig.job.pauseRecheckMs,
+      'token-1'
+    );
+    expect(mockedHistory.update).toHaveBeenCalledWith('job-1', {
+      status: JobStatus.PAUSED,
+    });
+    expect(mockedRepository.bulkInsertWithTVP).toHaveBeenCalledTimes(1);
+    // The checkpoint survives the park in the job data
+    expect(job.data.checkpoint).toMatchObject({
+      current: { lastRowNumber: 501, insertedCount: 500 },
+      failureTotals: { processed: 500, written: 500, failed: 0 },
+    });
+
+    mockedControl.isPauseRequested.mockResolvedValue(false);
+    await expect(processor(job, 'token-2')).resolves.toMatchObject({
+      successCount: 1200,
+      insertedCount: 1200,
+      failedCount: 0,
+    });
+
+    // Rows before the checkpoint are not written again
+    expect(mockedRepository.bulkInsertWithTVP).toHaveBeenCalledTimes(3);
+    expect(insertedIds(1)[0]).toBe('501');
+    expect(insertedIds(2).at(-1)).toBe('1200');
+  });
+
+  it('parks a job held by a paused queue for a short while', async () => {
+    mockedControl.isPauseRequested.mockResolvedValue(false);
+    mockedControl.isQueuePaused.mockResolvedValueOnce(true);
+    const job = createJob();
+
+    await expect(processor(job, 'token-1')).rejects.toBeInstanceOf(
+      DelayedError
+    );
+
+    const [[until]] = job.moveToDelayed.mock.calls;
+    expect(until - Date.now()).toBeLessThanOrEqual(5000);
+    expect(mockedRepository.bulkInsertWithTVP).not.toHaveBeenCalled();
+  });
+});
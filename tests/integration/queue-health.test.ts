@@ -0,0 +1,120 @@
+import { Queue } from 'bullmq';
+import { appConfig } from '../../src/config/app.config';
+import jobService from '../../src/services/job.service';
+
+jest.mock('../../src/config/queue.config', () => ({
+  queueConfig: { name: 'test-queue' },
+  queueOptions: {},
+  redisConnection: {},
+}));
+
+jest.mock('../../src/config/database.config', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({ connect: jest.fn(), getPool: jest.fn() }),
+  },
+}));
+
+jest.mock('bullmq', () => ({
+  ...jest.requireActual('bullmq'),
+  Queue: jest.fn().mockImplementation(() => ({
+    getJobCounts: jest.fn(),
+    getWorkersCount: jest.fn(),
+    isPaused: jest.fn(),
+    getJobs: jest.fn(),
+    on: jest.fn(),
+  })),
+}));
+
+// The queue the job service opened when it was imported
+const [{ value: queue }] = (Queue as unknown as jest.Mock).mock.results;
+
+const counts = (waiting: number, prioritized: number) => ({
+  active: 2,
+  waiting,
+  prioritized,
+  'waiting-children': 0,
+  delayed: 1,
+  paused: 0,
+  completed: 40,
+  failed: 3,
+});
+
+describe('Queue health', () => {
+  const now = Date.now();
+
+  beforeAll(() => {
+    appConfig.queueHealth = {
+      maxWaitingJobs: 100,
+      maxWaitingAgeMs: 15 * 60 * 1000,
+      minWorkers: 1,
+    };
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    queue.getJobCounts.mockResolvedValue(counts(3, 2));
+    queue.getWorkersCount.mockResolvedValue(2);
+    queue.isPaused.mockResolvedValue(false);
+    queue.getJobs.mockResolvedValue([{ timestamp: now - 30 * 1000 }]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports a queue within its limits as healthy', async () => {
+    await expect(jobService.getQueueHealth()).resolves.toMatchObject({
+      isHealthy: true,
+      activeJobs: 2,
+      waitingJobs: 3,
+      prioritizedJobs: 2,
+      delayedJobs: 1,
+      completedJobs: 40,
+      failedJobs: 3,
+      oldestWaitingAge: 30 * 1000,
+      workersCount: 2,
+      isPaused: false,
+      issues: [],
+    });
+    // The oldest job is read from the waiting list, oldest first
+    expect(queue.getJobs).toHaveBeenCalledWith('waiting', 0, 0, true);
+  });
+
+  it('counts prioritized jobs into the backlog and flags its age', async () => {
+    queue.getJobCounts.mockResolvedValue(counts(60, 50));
+    queue.getJobs.mockResolvedValue([{ timestamp: now - 20 * 60 * 1000 }]);
+
+    const health = await jobService.getQueueHealth();
+
+    expect(health.isHealthy).toBe(false);
+    expect(health.issues).toEqual([
+      '110 jobs waiting; limit is 100',
+      'Oldest waiting job queued 1200s ago; limit is 900s',
+    ]);
+  });
+
+  it('checks only the workers of a paused queue', async () => {
+    queue.getJobCounts.mockResolvedValue(counts(500, 0));
+    queue.getJobs.mockResolvedValue([{ timestamp: now - 60 * 60 * 1000 }]);
+    queue.isPaused.mockResolvedValue(true);
+    queue.getWorkersCount.mockResolvedValue(0);
+
+    await expect(jobService.getQueueHealth()).resolves.toMatchObject({
+      isHealthy: false,
+      isPaused: true,
+      issues: ['0 workers connected; at least 1 expected'],
+    });
+  });
+
+  it('leaves the backlog age out when nothing is waiting', async () => {
+    queue.getJobCounts.mockResolvedValue(counts(0, 0));
+    queue.getJobs.mockResolvedValue([]);
+
+    const health = await jobService.getQueueHealth();
+
+    expect(health.isHealthy).toBe(true);
+    expect(health.oldestWaitingAge).toBeUndefined();
+  });
+});
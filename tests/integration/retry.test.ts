@@ -0,0 +1,276 @@
+import ExcelJS from 'exceljs';
+import { Request, Response } from 'express';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { appConfig } from '../../src/config/app.config';
+import jobController from '../../src/controllers/job.controller';
+import failedRecordRepository from '../../src/repositories/failed-record.repository';
+import jobService from '../../src/services/job.service';
+import { FailedRecord, JobData, JobStatus } from '../../src/types';
+
+jest.mock('../../src/config/queue.config', () => ({
+  queueConfig: { name: 'test-queue' },
+  redisConnection: {},
+}));
+
+jest.mock('../../src/config/database.config', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({ connect: jest.fn(), getPool: jest.fn() }),
+  },
+}));
+
+jest.mock('../../src/services/job.service', () => ({
+  __esModule: true,
+  default: {
+    getJobStatus: jest.fn(),
+    getJobData: jest.fn(),
+    addJob: jest.fn(),
+  },
+}));
+
+// Failed rows the parent stored, in place of Redis
+let storedRows: FailedRecord[] = [];
+jest.mock('../../src/repositories/failed-record.repository', () => ({
+  __esModule: true,
+  default: {
+    count: jest.fn(async () => storedRows.length),
+    getHeaders: jest.fn(async () => new Map([['', ['Name', 'Email']]])),
+    stream: jest.fn(async function* () {
+      yield* storedRows;
+    }),
+  },
+}));
+
+const mockedJobService = jobService as jest.Mocked<typeof jobService>;
+
+const parent: JobData = {
+  jobId: 'parent-job',
+  correlationId: 'parent-correlation-id',
+  fileName: 'employees.csv',
+  filePath: '/tmp/uploads/employees.csv',
+  tableName: 'Employees',
+  columnMapping: { Email: 'EmailAddress' },
+  mode: 'insert',
+  totalRecords: 3,
+  createdAt: new Date('2025-01-15T10:30:00.000Z'),
+};
+
+const createResponse = (): Response => {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const createRequest = (
+  body: Record<string, unknown> = {},
+  file?: Partial<Express.Multer.File>
+): Request =>
+  ({
+    correlationId: 'test-correlation-id',
+    params: { jobId: 'parent-job' },
+    body,
+    file,
+  }) as unknown as Request;
+
+/**
+ * Rows of the first worksheet of a workbook, header row first
+ */
+const readWorkbook = async (filePath: string): Promise<unknown[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+  const rows: unknown[][] = [];
+  workbook.worksheets[0].eachRow((row) => {
+    rows.push((row.values as unknown[]).slice(1));
+  });
+  return rows;
+};
+
+describe('Retry failed rows', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retry-test-'));
+    appConfig.upload.tempPath = tempDir;
+
+    storedRows = [
+      {
+        rowNumber: 3,
+        data: { Name: 'Grace Hopper', Email: 'grace@' },
+        error: 'Email: not a valid email address',
+        columns: ['Email'],
+        timestamp: new Date(),
+      },
+    ];
+    mockedJobService.getJobStatus.mockResolvedValue({
+      jobId: 'parent-job',
+      status: JobStatus.COMPLETED,
+    } as Awaited<ReturnType<typeof jobService.getJobStatus>>);
+    mockedJobService.getJobData.mockResolvedValue(parent);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('imports the stored failed rows with edits applied into the parent table', async () => {
+    const res = createResponse();
+
+    await jobController.retryFailed(
+      createRequest({
+        edits: [{ rowNumber: 3, values: { Email: 'grace@example.com' } }],
+      }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(202);
+    expect(mockedJobService.addJob).toHaveBeenCalledTimes(1);
+    const [retryJob] = mockedJobService.addJob.mock.calls[0];
+    expect(retryJob).toMatchObject({
+      parentJobId: 'parent-job',
+      fileName: 'parent-job-errors.xlsx',
+      tableName: 'Employees',
+      columnMapping: { Email: 'EmailAddress' },
+      mode: 'insert',
+      totalRecords: 1,
+      skipRows: 0,
+    });
+    expect(path.dirname(retryJob.filePath)).toBe(tempDir);
+
+    // The retry file is the error report with the edit applied
+    expect(await readWorkbook(retryJob.filePath)).toEqual([
+      ['Name', 'Email', 'Error'],
+      ['Grace Hopper', 'grace@example.com', 'Email: not a valid email address'],
+    ]);
+  });
+
+  it('rejects edits to rows that did not fail without queueing a job', async () => {
+    const res = createResponse();
+
+    await jobController.retryFailed(
+      createRequest({
+        edits: [{ rowNumber: 9, values: { Email: 'x@example.com' } }],
+      }),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          validationErrors: [{ field: 'edits', message: 'Row 9 did not fail' }],
+        },
+      })
+    );
+    expect(mockedJobService.addJob).not.toHaveBeenCalled();
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+  });
+
+  it('imports a corrected file in place of the stored rows', async () => {
+    const filePath = path.join(tempDir, 'corrected.csv');
+    fs.writeFileSync(
+      filePath,
+      'Name,Email\nGrace Hopper,grace@example.com\nAda Lovelace,ada@example.com\n'
+    );
+    const res = createResponse();
+
+    await jobController.retryFailed(
+      createRequest(
+        {},
+        {
+          path: filePath,
+          originalname: 'corrected.csv',
+          mimetype: 'text/csv',
+          size: fs.statSync(filePath).size,
+        }
+      ),
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(202);
+    expect(mockedJobService.addJob.mock.calls[0][0]).toMatchObject({
+      parentJobId: 'parent-job',
+      filePath,
+      fileName: 'corrected.csv',
+      tableName: 'Employees',
+      totalRecords: 2,
+    });
+    expect(failedRecordRepository.stream).not.toHaveBeenCalled();
+  });
+
+  it('answers 404 when the job has no failed rows', async () => {
+    storedRows = [];
+    const res = createResponse();
+
+    await jobController.retryFailed(createRequest(), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(mockedJobService.addJob).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [JobStatus.PROCESSING, 'has not finished yet'],
+    [JobStatus.FAILED, 'stopped before all of its rows were committed'],
+    [JobStatus.CANCELLED, 'stopped before all of its rows were committed'],
+  ])(
+    'refuses a %s parent and removes the uploaded file',
+    async (status, message) => {
+      mockedJobService.getJobStatus.mockResolvedValue({
+        jobId: 'parent-job',
+        status,
+      } as Awaited<ReturnType<typeof jobService.getJobStatus>>);
+      const filePath = path.join(tempDir, 'corrected.csv');
+      fs.writeFileSync(
+        filePath,
+        'Name,Email\nGrace Hopper,grace@example.com\n'
+      );
+      const res = createResponse();
+
+      await jobController.retryFailed(
+        createRequest({}, { path: filePath, originalname: 'corrected.csv' }),
+        res
+      );
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: expect.stringContaining(message) })
+      );
+      expect(fs.existsSync(filePath)).toBe(false);
+      expect(mockedJobService.addJob).not.toHaveBeenCalled();
+    }
+  );
+
+  it.each([
+    ['a replace job', { mode: 'replace' as const }],
+    [
+      'a job with a replace sheet',
+      {
+        tableName: 'Employees,Teams',
+        sheets: [
+          {
+            sheetName: 'Staff',
+            tableName: 'Employees',
+            mode: 'insert' as const,
+          },
+          { sheetName: 'Teams', tableName: 'Teams', mode: 'replace' as const },
+        ],
+      },
+    ],
+  ])('refuses %s', async (_label, overrides) => {
+    mockedJobService.getJobData.mockResolvedValue({ ...parent, ...overrides });
+    const res = createResponse();
+
+    await jobController.retryFailed(createRequest(), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: expect.stringContaining('replaced its table'),
+      })
+    );
+    expect(mockedJobService.addJob).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,79 @@
+import dataRepository from '../../src/repositories/data.repository';
+
+const statements: string[] = [];
+const transaction = {
+  begin: jest.fn(),
+  commit: jest.fn(),
+  rollback: jest.fn(),
+  request: () => ({ query: runStatement }),
+};
+let failInsert = false;
+
+async function runStatement(statement: string) {
+  statements.push(statement.replace(/\s+/g, ' ').trim());
+  if (failInsert && statement.startsWith('INSERT')) {
+    throw Object.assign(new Error('Cannot insert the value NULL'), {
+      number: 515,
+    });
+  }
+  return { recordset: [], rowsAffected: [3] };
+}
+
+jest.mock('../../src/config/database.config', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getPool: () => ({
+        transaction: () => transaction,
+        request: () => ({
+          input: () => ({ query: runStatement }),
+          query: runStatement,
+        }),
+      }),
+    }),
+  },
+}));
+
+describe('Shadow table swap', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    statements.length = 0;
+    failInsert = false;
+  });
+
+  it('deletes and inserts in one transaction, then drops the shadow', async () => {
+    const loaded = await dataRepository.replaceFromShadowTable(
+      'Employees',
+      'Employees__import_job1',
+      ['Id', 'Name']
+    );
+
+    expect(loaded).toBe(3);
+    expect(statements).toEqual([
+      'DELETE FROM Employees',
+      'INSERT INTO Employees ([Id], [Name]) SELECT [Id], [Name] FROM Employees__import_job1',
+      "IF OBJECT_ID(@tableName, 'U') IS NOT NULL DROP TABLE Employees__import_job1",
+    ]);
+    expect(transaction.commit).toHaveBeenCalled();
+    expect(transaction.rollback).not.toHaveBeenCalled();
+  });
+
+  it('rolls the delete back when the insert fails', async () => {
+    failInsert = true;
+
+    await expect(
+      dataRepository.replaceFromShadowTable(
+        'Employees',
+        'Employees__import_job1',
+        ['Id', 'Name']
+      )
+    ).rejects.toMatchObject({ number: 515 });
+
+    expect(transaction.rollback).toHaveBeenCalled();
+    expect(transaction.commit).not.toHaveBeenCalled();
+    // The caller drops the shadow table of a failed import
+    expect(statements.some((statement) => statement.includes('DROP'))).toBe(
+      false
+    );
+  });
+});
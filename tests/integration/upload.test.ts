@@ -0,0 +1,221 @@
+import ExcelJS from 'exceljs';
+import { Request, Response } from 'express';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import uploadController from '../../src/controllers/upload.controller';
+import dataRepository from '../../src/repositories/data.repository';
+import jobService from '../../src/services/job.service';
+import { JobData } from '../../src/types';
+import { startWorker } from '../../src/workers/import.worker';
+
+type Processor = (job: unknown) => Promise<unknown>;
+
+jest.mock('../../src/config/queue.config', () => ({
+  queueConfig: { name: 'test-queue' },
+  workerOptions: {},
+  redisConnection: {},
+}));
+
+jest.mock('../../src/config/database.config', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({ connect: jest.fn(), getPool: jest.fn() }),
+  },
+}));
+
+let processor: Processor;
+jest.mock('bullmq', () => ({
+  Worker: jest.fn().mockImplementation((_name: string, fn: Processor) => {
+    processor = fn;
+    return { on: jest.fn(), close: jest.fn() };
+  }),
+}));
+
+jest.mock('../../src/services/job.service', () => ({
+  __esModule: true,
+  default: { addJob: jest.fn() },
+}));
+
+jest.mock('../../src/repositories/data.repository', () => ({
+  __esModule: true,
+  default: {
+    tableExists: jest.fn().mockResolvedValue(true),
+    getTableSchema: jest.fn().mockResolvedValue(
+      ['Name', 'Email'].map((name) => ({
+        name,
+        dataType: 'nvarchar',
+        maxLength: 255,
+        precision: null,
+        scale: null,
+        isNullable: true,
+        hasDefault: false,
+        isIdentity: false,
+        isComputed: false,
+      }))
+    ),
+    bulkInsertWithTVP: jest.fn(),
+  },
+}));
+
+const mockedRepository = dataRepository as jest.Mocked<typeof dataRepository>;
+const mockedJobService = jobService as jest.Mocked<typeof jobService>;
+
+/**
+ * Build a workbook whose first sheet must never be imported and whose
+ * second sheet has two banner rows above the header
+ */
+const createWorkbook = async (filePath: string): Promise<void> => {
+  const workbook = new ExcelJS.Workbook();
+
+  const summary = workbook.addWorksheet('Summary');
+  summary.addRow(['Name', 'Email']);
+  summary.addRow(['Wrong Sheet', 'wrong@example.com']);
+
+  const employees = workbook.addWorksheet('Employees');
+  employees.addRow(['Quarterly employee export']);
+  employees.addRow(['Generated 2025-01-15']);
+  employees.addRow(['Name', 'Email']);
+  employees.addRow(['Ada Lovelace', 'ada@example.com']);
+  employees.addRow(['Alan Turing', 'alan@example.com']);
+
+  await workbook.xlsx.writeFile(filePath);
+};
+
+const createResponse = (): Response => {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+describe('Upload with sheetName and skipRows', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeAll(async () => {
+    await startWorker();
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockedRepository.bulkInsertWithTVP.mockImplementation(
+      async (_tableName, records) => ({
+        inserted: records.length,
+        failed: 0,
+        errors: [],
+      })
+    );
+
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-test-'));
+    filePath = path.join(tempDir, 'employees.xlsx');
+    await createWorkbook(filePath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const uploadEmployeesSheet = async (): Promise<JobData> => {
+    const req = {
+      correlationId: 'test-correlation-id',
+      file: {
+        path: filePath,
+        originalname: 'employees.xlsx',
+        mimetype:
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        size: fs.statSync(filePath).size,
+      },
+      body: { tableName: 'Employees', sheetName: 'Employees', skipRows: 2 },
+    } as unknown as Request;
+    const res = createResponse();
+
+    await uploadController.uploadFile(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(202);
+    expect(mockedJobService.addJob).toHaveBeenCalledTimes(1);
+    return mockedJobService.addJob.mock.calls[0][0];
+  };
+
+  it('carries sheetName and skipRows into the queued job data', async () => {
+    const jobData = await uploadEmployeesSheet();
+
+    expect(jobData).toMatchObject({
+      tableName: 'Employees',
+      sheetName: 'Employees',
+      skipRows: 2,
+      totalRecords: 2,
+    });
+  });
+
+  it('imports the rows of the requested sheet below the banner rows', async () => {
+    const jobData = await uploadEmployeesSheet();
+
+    const result = await processor({
+      data: jobData,
+      updateProgress: jest.fn().mockResolvedValue(undefined),
+    });
+
+    expect(mockedRepository.bulkInsertWithTVP).toHaveBeenCalledTimes(1);
+    expect(mockedRepository.bulkInsertWithTVP).toHaveBeenCalledWith(
+      'Employees',
+      [
+        { Name: 'Ada Lovelace', Email: 'ada@example.com' },
+        { Name: 'Alan Turing', Email: 'alan@example.com' },
+      ],
+      expect.arrayContaining([
+        expect.objectContaining({ name: 'Name', dataType: 'nvarchar' }),
+      ]),
+      undefined,
+      undefined
+    );
+    expect(result).toMatchObject({ successCount: 2, failedCount: 0 });
+  });
+
+  it('resumes after the checkpointed row without writing it again', async () => {
+    const jobData = await uploadEmployeesSheet();
+    const updateData = jest.fn();
+
+    const result = await processor({
+      data: {
+        ...jobData,
+        checkpoint: {
+          completedSheets: [],
+          current: {
+            sheetName: 'Employees',
+            lastRowNumber: 4,
+            processedCount: 1,
+            successCount: 1,
+            insertedCount: 1,
+            updatedCount: 0,
+            unchangedCount: 0,
+            failedCount: 0,
+          },
+          failureTotals: { processed: 1, written: 1, failed: 0 },
+        },
+      },
+      updateProgress: jest.fn().mockResolvedValue(undefined),
+      updateData,
+    });
+
+    expect(mockedRepository.bulkInsertWithTVP).toHaveBeenCalledTimes(1);
+    expect(mockedRepository.bulkInsertWithTVP).toHaveBeenCalledWith(
+      'Employees',
+      [{ Name: 'Alan Turing', Email: 'alan@example.com' }],
+      expect.any(Array),
+      undefined,
+      undefined
+    );
+    expect(result).toMatchObject({ successCount: 2, insertedCount: 2 });
+    expect(updateData).toHaveBeenCalledWith(
+      expect.objectContaining({
+        checkpoint: expect.objectContaining({
+          current: expect.objectContaining({
+            lastRowNumber: 5,
+            processedCount: 2,
+          }),
+        }),
+      })
+    );
+  });
+});
@@ -0,0 +1,296 @@
+import { Job, UnrecoverableError } from 'bullmq';
+import { createHmac } from 'node:crypto';
+import { lookup } from 'node:dns';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { appConfig } from '../../src/config/app.config';
+import webhookDeliveryRepository from '../../src/repositories/webhook-delivery.repository';
+import webhookService, {
+  WebhookJobData,
+} from '../../src/services/webhook.service';
+
+jest.mock('../../src/config/queue.config', () => ({
+  queueConfig: { name: 'test-queue' },
+  redisConnection: {},
+}));
+
+const mockAdd = jest.fn();
+jest.mock('bullmq', () => ({
+  ...jest.requireActual('bullmq'),
+  Queue: jest.fn().mockImplementation(() => ({ add: mockAdd, on: jest.fn() })),
+}));
+
+jest.mock('../../src/repositories/webhook-delivery.repository', () => ({
+  __esModule: true,
+  default: {
+    create: jest.fn(),
+    recordAttempt: jest.fn(),
+    addDeadLetter: jest.fn(),
+  },
+}));
+
+jest.mock('node:dns', () => ({
+  ...jest.requireActual('node:dns'),
+  lookup: jest.fn(),
+}));
+
+const mockedLookup = lookup as unknown as jest.Mock;
+
+/**
+ * Answer the connection's DNS lookups with the given IPv4 addresses
+ */
+const resolveTo = (...addresses: string[]) =>
+  mockedLookup.mockImplementation(
+    (
+      _hostname: string,
+      options: { all?: boolean },
+      callback: (...args: unknown[]) => void
+    ) =>
+      options.all
+        ? callback(
+            null,
+            addresses.map((address) => ({ address, family: 4 }))
+          )
+        : callback(null, addresses[0], 4)
+  );
+
+const mockedRepository = webhookDeliveryRepository as jest.Mocked<
+  typeof webhookDeliveryRepository
+>;
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local receiver answering every request with the next queued status
+ */
+const startReceiver = async (
+  statuses: number[]
+): Promise<{ url: string; received: ReceivedRequest[]; close: () => void }> => {
+  const received: ReceivedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks/import`,
+    received,
+    close: () => server.close(),
+  };
+};
+
+const createDeliveryJob = (
+  url: string,
+  attemptsMade = 0
+): Job<WebhookJobData> =>
+  ({
+    data: {
+      deliveryId: 'job-1-completed',
+      jobId: 'job-1',
+      url,
+      event: {
+        jobId: 'job-1',
+        eventType: 'completed',
+        timestamp: new Date('2025-01-15T10:30:00.000Z'),
+        data: { successCount: 2, failedCount: 0 },
+      },
+    },
+    attemptsMade,
+    opts: { attempts: 3 },
+  }) as unknown as Job<WebhookJobData>;
+
+describe('Webhook delivery', () => {
+  let receiver: Awaited<ReturnType<typeof startReceiver>> | undefined;
+
+  beforeAll(() => {
+    appConfig.webhook.secret = 'test-secret';
+    // The local receiver stands in for an allowlisted internal host
+    appConfig.webhook.allowedPrivateHosts = ['127.0.0.1'];
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    receiver?.close();
+    receiver = undefined;
+  });
+
+  it('posts the job event signed with HMAC-SHA256', async () => {
+    receiver = await startReceiver([204]);
+
+    await webhookService.deliver(createDeliveryJob(receiver.url));
+
+    expect(receiver.received).toHaveLength(1);
+    const [{ headers, body }] = receiver.received;
+    const expectedSignature = createHmac('sha256', 'test-secret')
+      .update(body)
+      .digest('hex');
+    expect(headers['x-signature-256']).toBe(`sha256=${expectedSignature}`);
+    expect(headers['x-webhook-event']).toBe('completed');
+    expect(headers['x-webhook-delivery']).toBe('job-1-completed');
+    expect(JSON.parse(body)).toEqual({
+      jobId: 'job-1',
+      eventType: 'completed',
+      timestamp: '2025-01-15T10:30:00.000Z',
+      data: { successCount: 2, failedCount: 0 },
+    });
+    expect(mockedRepository.recordAttempt).toHaveBeenCalledWith(
+      'job-1',
+      'job-1-completed',
+      expect.objectContaining({ attempt: 1, statusCode: 204 }),
+      'delivered'
+    );
+  });
+
+  it('leaves a server error to be retried', async () => {
+    receiver = await startReceiver([503]);
+
+    await expect(
+      webhookService.deliver(createDeliveryJob(receiver.url))
+    ).rejects.not.toBeInstanceOf(UnrecoverableError);
+
+    expect(mockedRepository.recordAttempt).toHaveBeenCalledWith(
+      'job-1',
+      'job-1-completed',
+      expect.objectContaining({ statusCode: 503 }),
+      'pending'
+    );
+    expect(mockedRepository.addDeadLetter).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters a delivery on its last attempt', async () => {
+    receiver = await startReceiver([500]);
+
+    await expect(
+      webhookService.deliver(createDeliveryJob(receiver.url, 2))
+    ).rejects.toThrow('Webhook responded with HTTP 500');
+
+    expect(mockedRepository.recordAttempt).toHaveBeenCalledWith(
+      'job-1',
+      'job-1-completed',
+      expect.objectContaining({ attempt: 3 }),
+      'failed'
+    );
+    expect(mockedRepository.addDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        deliveryId: 'job-1-completed',
+        error: 'Webhook responded with HTTP 500',
+      })
+    );
+  });
+
+  it('does not retry a rejected delivery', async () => {
+    receiver = await startReceiver([410]);
+
+    await expect(
+      webhookService.deliver(createDeliveryJob(receiver.url))
+    ).rejects.toBeInstanceOf(UnrecoverableError);
+
+    expect(mockedRepository.addDeadLetter).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a private address without sending anything', async () => {
+    receiver = await startReceiver([204]);
+    appConfig.webhook.allowedPrivateHosts = [];
+
+    try {
+      await expect(
+        webhookService.deliver(createDeliveryJob(receiver.url))
+      ).rejects.toBeInstanceOf(UnrecoverableError);
+    } finally {
+      appConfig.webhook.allowedPrivateHosts = ['127.0.0.1'];
+    }
+
+    expect(receiver.received).toHaveLength(0);
+    expect(mockedRepository.addDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error:
+          'Webhook host 127.0.0.1 is a private or local address (127.0.0.1)',
+      })
+    );
+  });
+
+  it('refuses a host name that resolves to a private address as it connects', async () => {
+    resolveTo('93.184.215.14', '169.254.169.254');
+
+    const delivery = webhookService.deliver(
+      createDeliveryJob('https://hooks.example.com/import')
+    );
+    await expect(delivery).rejects.toBeInstanceOf(UnrecoverableError);
+    await expect(delivery).rejects.toThrow(
+      'Webhook host hooks.example.com is a private or local address (169.254.169.254)'
+    );
+
+    // Resolved once, by the connection itself
+    expect(mockedLookup).toHaveBeenCalledTimes(1);
+    expect(mockedLookup).toHaveBeenCalledWith(
+      'hooks.example.com',
+      expect.any(Object),
+      expect.any(Function)
+    );
+    expect(mockedRepository.addDeadLetter).toHaveBeenCalledTimes(1);
+  });
+
+  it('connects to the address the allowlisted host name resolved to', async () => {
+    receiver = await startReceiver([204]);
+    resolveTo('127.0.0.1');
+    appConfig.webhook.allowedPrivateHosts = ['hooks.internal'];
+
+    try {
+      await webhookService.deliver(
+        createDeliveryJob(receiver.url.replace('127.0.0.1', 'hooks.internal'))
+      );
+    } finally {
+      appConfig.webhook.allowedPrivateHosts = ['127.0.0.1'];
+    }
+
+    expect(receiver.received).toHaveLength(1);
+    expect(receiver.received[0].headers.host).toMatch(/^hooks\.internal:/);
+  });
+
+  it('does not follow a redirect', async () => {
+    receiver = await startReceiver([302]);
+
+    await expect(
+      webhookService.deliver(createDeliveryJob(receiver.url))
+    ).rejects.toBeInstanceOf(UnrecoverableError);
+
+    expect(receiver.received).toHaveLength(1);
+  });
+
+  it('queues each event of a job once, and only events it asked for', async () => {
+    const jobData = {
+      jobId: 'job-1',
+      callback: {
+        url: 'http://127.0.0.1/hooks/import',
+        events: ['completed' as const],
+      },
+    };
+    mockedRepository.create.mockResolvedValueOnce(true);
+    mockedRepository.create.mockResolvedValueOnce(false);
+
+    await webhookService.notify(jobData, 'completed');
+    await webhookService.notify(jobData, 'completed');
+    await webhookService.notify(jobData, 'failed', { error: 'Boom' });
+
+    expect(mockedRepository.create).toHaveBeenCalledTimes(2);
+    expect(mockAdd).toHaveBeenCalledTimes(1);
+    expect(mockAdd).toHaveBeenCalledWith(
+      'deliver',
+      expect.objectContaining({ deliveryId: 'job-1-completed' }),
+      { jobId: 'job-1-completed' }
+    );
+  });
+});
@@ -0,0 +1,319 @@
+import ExcelJS from 'exceljs';
+import { Request, Response } from 'express';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { appConfig } from '../../src/config/app.config';
+import jobController from '../../src/controllers/job.controller';
+import dataRepository from '../../src/repositories/data.repository';
+import failedRecordRepository from '../../src/repositories/failed-record.repository';
+import excelService from '../../src/services/excel.service';
+import importService from '../../src/services/import.service';
+import jobService from '../../src/services/job.service';
+import { FailedRecord, JobData, JobStatus } from '../../src/types';
+
+jest.mock('../../src/config/queue.config', () => ({
+  queueConfig: { name: 'test-queue' },
+  redisConnection: {},
+}));
+
+jest.mock('../../src/config/database.config', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({ connect: jest.fn(), getPool: jest.fn() }),
+  },
+}));
+
+jest.mock('../../src/services/job.service', () => ({
+  __esModule: true,
+  default: {
+    getJobStatus: jest.fn(),
+    getJobData: jest.fn(),
+    addJob: jest.fn(),
+  },
+}));
+
+// Failed rows kept as JSON, the way Redis keeps them
+let storedRows: string[] = [];
+let storedHeaders = new Map<string, string[]>();
+jest.mock('../../src/repositories/failed-record.repository', () => ({
+  __esModule: true,
+  default: {
+    append: jest.fn(
+      async (_jobId: string, headers: string[], records: FailedRecord[]) => {
+        if (!storedHeaders.has(records[0].sheetName ?? '')) {
+          storedHeaders.set(records[0].sheetName ?? '', headers);
+        }
+        storedRows.push(...records.map((record) => JSON.stringify(record)));
+      }
+    ),
+    count: jest.fn(async () => storedRows.length),
+    getHeaders: jest.fn(async () => storedHeaders),
+    stream: jest.fn(async function* () {
+      for (const row of storedRows) {
+        yield JSON.parse(row) as FailedRecord;
+      }
+    }),
+  },
+}));
+
+const columns = (...definitions: Array<[string, string, number | null]>) =>
+  definitions.map(([name, dataType, maxLength]) => ({
+    name,
+    dataType,
+    maxLength,
+    precision: dataType === 'decimal' ? 18 : null,
+    scale: dataType === 'decimal' ? 2 : null,
+    isNullable: true,
+    hasDefault: false,
+    isIdentity: false,
+    isComputed: false,
+  }));
+
+const tableSchemas: Record<string, ReturnType<typeof columns>> = {
+  Departments: columns(['Code', 'int', null], ['Name', 'nvarchar', 50]),
+  Employees: columns(
+    ['Name', 'nvarchar', 100],
+    ['DepartmentCode', 'int', null],
+    ['HireDate', 'date', null],
+    ['Salary', 'decimal', null]
+  ),
+};
+
+jest.mock('../../src/repositories/data.repository', () => ({
+  __esModule: true,
+  default: {
+    tableExists: jest.fn().mockResolvedValue(true),
+    getTableSchema: jest.fn(
+      async (tableName: string) => tableSchemas[tableName]
+    ),
+    bulkInsertWithTVP: jest.fn(async (_tableName, records) => ({
+      inserted: records.length,
+      failed: 0,
+      errors: [],
+    })),
+  },
+}));
+
+const mockedRepository = dataRepository as jest.Mocked<typeof dataRepository>;
+const mockedJobService = jobService as jest.Mocked<typeof jobService>;
+
+const sheets = [
+  { sheetName: 'Departments', tableName: 'Departments' },
+  { sheetName: 'Employees', tableName: 'Employees' },
+];
+
+/**
+ * A workbook whose first sheet is not data, a small Departments sheet and
+ * an Employees sheet spanning two batches; rows 3 of Departments and 11
+ * and 551 of Employees cannot be loaded
+ */
+const createWorkbook = async (filePath: string): Promise<void> => {
+  const workbook = new ExcelJS.Workbook();
+
+  workbook.addWorksheet('Summary').addRow(['Quarterly export']);
+
+  const departments = workbook.addWorksheet('Departments');
+  departments.addRow(['Code', 'Name']);
+  departments.addRow([1, 'Sales']);
+  departments.addRow(['two', 'Support']);
+  departments.addRow([3, 'Operations']);
+
+  const employees = workbook.addWorksheet('Employees');
+  employees.addRow(['Name', 'DepartmentCode', 'HireDate', 'Salary']);
+  for (let id = 1; id <= 600; id++) {
+    employees.addRow([
+      id === 1
+        ? { richText: [{ text: 'Employee ' }, { text: '1' }] }
+        : `Employee ${id}`,
+      id === 10 || id === 550 ? 'unknown' : (id % 3) + 1,
+      new Date(Date.UTC(2024, 0, (id % 28) + 1)),
+      id === 1 ? { formula: '1000*2', result: 2000 } : 1000 + id / 4,
+    ]);
+  }
+
+  await workbook.xlsx.writeFile(filePath);
+};
+
+const createResponse = (): Response => {
+  const res = {} as Response;
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+describe('Workbook fixture', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workbook-test-'));
+    filePath = path.join(tempDir, 'company.xlsx');
+    await createWorkbook(filePath);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storedRows = [];
+    storedHeaders = new Map();
+  });
+
+  it('streams a sheet other than the first in batches of typed values', async () => {
+    const batches = [];
+    for await (const batch of excelService.streamExcelRows(
+      filePath,
+      'Employees'
+    )) {
+      batches.push(batch);
+    }
+
+    expect(batches.map((batch) => batch.records.length)).toEqual([500, 100]);
+    expect(batches[0].headers).toEqual([
+      'Name',
+      'DepartmentCode',
+      'HireDate',
+      'Salary',
+    ]);
+    expect(batches[0].rowNumbers[0]).toBe(2);
+    expect(batches[1].rowNumbers.at(-1)).toBe(601);
+    expect(batches[0].records[0]).toEqual({
+      Name: 'Employee 1',
+      DepartmentCode: 2,
+      HireDate: new Date(Date.UTC(2024, 0, 2)),
+      Salary: 2000,
+    });
+  });
+
+  it('refuses a sheet the workbook does not have', async () => {
+    const rows = excelService.streamExcelRows(filePath, 'Payroll');
+
+    await expect(rows.next()).rejects.toThrow('Worksheet Payroll not found');
+  });
+
+  it('describes every sheet when inspected', async () => {
+    const inspections = await excelService.inspectWorkbook(filePath, 2);
+
+    expect(
+      inspections.map(({ name, headers, rowCount }) => ({
+        name,
+        headers,
+        rowCount,
+      }))
+    ).toEqual([
+      { name: 'Summary', headers: ['Quarterly export'], rowCount: 0 },
+      { name: 'Departments', headers: ['Code', 'Name'], rowCount: 3 },
+      {
+        name: 'Employees',
+        headers: ['Name', 'DepartmentCode', 'HireDate', 'Salary'],
+        rowCount: 600,
+      },
+    ]);
+
+    const [, departments, employees] = inspections;
+    expect(departments.sampleRows).toEqual([
+      { Code: 1, Name: 'Sales' },
+      { Code: 'two', Name: 'Support' },
+    ]);
+    expect(employees.columns).toEqual([
+      { name: 'Name', column: 'A', inferredType: 'string', nullCount: 0 },
+      {
+        name: 'DepartmentCode',
+        column: 'B',
+        inferredType: 'string',
+        nullCount: 0,
+      },
+      { name: 'HireDate', column: 'C', inferredType: 'date', nullCount: 0 },
+      { name: 'Salary', column: 'D', inferredType: 'decimal', nullCount: 0 },
+    ]);
+  });
+
+  it('retries the failed rows of every sheet from the error report', async () => {
+    const parent: JobData = {
+      jobId: 'parent-job',
+      correlationId: 'parent-correlation-id',
+      fileName: 'company.xlsx',
+      filePath,
+      tableName: 'Departments,Employees',
+      sheets,
+      totalRecords: 603,
+      createdAt: new Date(),
+    };
+    const imported = await importService.processWorkbook(
+      filePath,
+      sheets,
+      undefined,
+      {
+        jobId: parent.jobId,
+        onFailedRows: (failures, headers) =>
+          failedRecordRepository.append(parent.jobId, headers, failures),
+      }
+    );
+    expect(imported.failedCount).toBe(3);
+
+    appConfig.upload.tempPath = tempDir;
+    mockedJobService.getJobStatus.mockResolvedValue({
+      jobId: parent.jobId,
+      status: JobStatus.COMPLETED,
+    } as Awaited<ReturnType<typeof jobService.getJobStatus>>);
+    mockedJobService.getJobData.mockResolvedValue(parent);
+    const res = createResponse();
+
+    await jobController.retryFailed(
+      {
+        correlationId: 'test-correlation-id',
+        params: { jobId: parent.jobId },
+        body: {
+          edits: [
+            { sheetName: 'Departments', rowNumber: 3, values: { Code: 2 } },
+            {
+              sheetName: 'Employees',
+              rowNumber: 11,
+              values: { DepartmentCode: 1 },
+            },
+          ],
+        },
+      } as unknown as Request,
+      res
+    );
+
+    expect(res.status).toHaveBeenCalledWith(202);
+    const [retryJob] = mockedJobService.addJob.mock.calls[0];
+    expect(retryJob).toMatchObject({
+      parentJobId: parent.jobId,
+      sheets: sheets.map((sheet) => ({ ...sheet, skipRows: 0 })),
+      totalRecords: 3,
+    });
+
+    mockedRepository.bulkInsertWithTVP.mockClear();
+    const retried = await importService.processWorkbook(
+      retryJob.filePath,
+      retryJob.sheets ?? []
+    );
+
+    // The edited rows load without the report's Error column; the row
+    // left as it was fails again
+    expect(retried).toMatchObject({ successCount: 2, failedCount: 1 });
+    expect(retried.failedRecords?.[0].error).toBe(
+      "B: Value 'unknown' cannot be converted to int"
+    );
+    const writes = mockedRepository.bulkInsertWithTVP.mock.calls;
+    expect(writes.map(([tableName, records]) => [tableName, records])).toEqual([
+      ['Departments', [{ Code: 2, Name: 'Support' }]],
+      [
+        'Employees',
+        [
+          {
+            Name: 'Employee 10',
+            DepartmentCode: 1,
+            HireDate: '2024-01-11T00:00:00.000Z',
+            Salary: 1002.5,
+          },
+        ],
+      ],
+    ]);
+  });
+});